@@ -0,0 +1,37 @@
+// OCR に使う worker・core・言語データを public/tesseract/ に置く（ホール内の圏外でも読み取れるように）
+// npm run dev / build / start の前に自動で走る
+import { copyFileSync, existsSync, mkdirSync, statSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const nm = join(root, "node_modules");
+const out = join(root, "public", "tesseract");
+
+const FILES = [
+  ["tesseract.js/dist/worker.min.js", "worker.min.js"],
+  // OEM 1（LSTM のみ）で使う core。SIMD の有無はブラウザ側で選ばれる
+  ["tesseract.js-core/tesseract-core-lstm.wasm.js", "core/tesseract-core-lstm.wasm.js"],
+  ["tesseract.js-core/tesseract-core-simd-lstm.wasm.js", "core/tesseract-core-simd-lstm.wasm.js"],
+  ["@tesseract.js-data/jpn/4.0.0_best_int/jpn.traineddata.gz", "lang/jpn.traineddata.gz"],
+  ["@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz", "lang/eng.traineddata.gz"],
+];
+
+let copied = 0;
+for (const [from, to] of FILES) {
+  const src = join(nm, from);
+  const dst = join(out, to);
+  if (!existsSync(src)) {
+    console.error(`copy-ocr-assets: ${from} が見つかりません（npm install を実行してください）`);
+    process.exit(1);
+  }
+  // 同じサイズ・新しい日付なら飛ばす
+  if (existsSync(dst)) {
+    const s = statSync(src), d = statSync(dst);
+    if (s.size === d.size && d.mtimeMs >= s.mtimeMs) continue;
+  }
+  mkdirSync(dirname(dst), { recursive: true });
+  copyFileSync(src, dst);
+  copied++;
+}
+console.log(`copy-ocr-assets: ${copied} 件コピー（${out}）`);
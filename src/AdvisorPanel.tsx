@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { CaptureInput, Premise } from "./calc.ts";
+import type { SettingTable } from "./presets.ts";
+import type { StrategyProfile } from "./strategies.ts";
+import {
+  DEFAULT_GAMES_PER_HOUR,
+  DEFAULT_LEND_PER_1000,
+  EXCHANGE_RATES,
+  adviseContinue,
+  beliefFromInput,
+  loadAdvisorDraft,
+  normalizeBelief,
+  saveAdvisorDraft,
+  type AdvisorDraft,
+} from "./advisor.ts";
+import { formatInt, formatPercent, numberOr } from "./format.ts";
+
+/* =========================================================
+   続行・ヤメの判断（残り時間の期待値・予算切れの確率・損益分岐）
+========================================================= */
+
+type Props = {
+  premise: Premise;
+  settings?: SettingTable;
+  strategies: StrategyProfile[];
+  input: CaptureInput;
+  // 数値を確かめていない機種なら注意書き
+  unverifiedNote?: string;
+};
+
+type BeliefSource = "input" | "manual";
+
+const signed = (n: number) => `${n > 0 ? "+" : ""}${formatInt(n)}`;
+const row: React.CSSProperties = { display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 13 };
+const field = "h-9 px-2 rounded-lg border";
+
+export default function AdvisorPanel({ premise, settings, strategies, input, unverifiedNote }: Props) {
+  const [draft, setDraft] = useState<AdvisorDraft>(() => loadAdvisorDraft());
+  const [source, setSource] = useState<BeliefSource>("input");
+  const [manual, setManual] = useState<string[]>(["", "", "", "", "", ""]);
+  // 判断は実際の打ち方で。既定はチェリー狙い
+  const [strategyKey, setStrategyKey] = useState(() => (strategies.find(s => s.key === "cherry100") ?? strategies[0])?.key ?? "");
+
+  useEffect(() => saveAdvisorDraft(draft), [draft]);
+  const update = (patch: Partial<AdvisorDraft>) => setDraft(d => ({ ...d, ...patch }));
+
+  const strategy = strategies.find(s => s.key === strategyKey) ?? strategies[0];
+  const rate = EXCHANGE_RATES.find(r => r.label === draft.rate) ?? EXCHANGE_RATES[0];
+  const minutes = numberOr(draft.minutes, 120);
+  const gamesPerHour = numberOr(draft.gamesPerHour, DEFAULT_GAMES_PER_HOUR);
+  const games = Math.max(0, Math.round((minutes / 60) * gamesPerHour));
+  const lendPer1000 = numberOr(draft.lendPer1000, DEFAULT_LEND_PER_1000);
+  const budgetYen = numberOr(draft.budgetYen, 20000);
+  const budgetCoins = (budgetYen / 1000) * lendPer1000;
+  const yenPerCoin = 100 / rate.coinsPer100;
+
+  const computed = useMemo(
+    () => (settings && strategy && input.G > 0 ? beliefFromInput(input, premise, strategy.capture, settings) : null),
+    [settings, strategy, input, premise],
+  );
+  const belief = source === "input" ? computed : normalizeBelief(manual.map(v => numberOr(v, 0)));
+
+  const advice = useMemo(
+    () => (settings && strategy && belief && games > 0
+      ? adviseContinue(belief, games, premise, strategy.capture, settings, budgetCoins, yenPerCoin)
+      : null),
+    [settings, strategy, belief, games, premise, budgetCoins, yenPerCoin],
+  );
+
+  if (!settings) {
+    return <p className="text-sm text-neutral-500">このプリセットには設定別の確率が無いため判断できません。</p>;
+  }
+
+  const cell: React.CSSProperties = { padding: "4px 6px", textAlign: "right", whiteSpace: "nowrap" };
+
+  return (
+    <div className="space-y-3">
+      <div style={row}>
+        <span style={{ fontWeight: 700 }}>設定の見込み</span>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <input type="radio" checked={source === "input"} onChange={() => setSource("input")} />
+          今の入力から（BIG・REG・ぶどう）
+        </label>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <input type="radio" checked={source === "manual"} onChange={() => setSource("manual")} />
+          手入力
+        </label>
+      </div>
+      {source === "manual" ? (
+        <div style={row}>
+          {manual.map((v, i) => (
+            <label key={i} style={{ display: "flex", alignItems: "center", gap: 2 }}>
+              設定{i + 1}
+              <input
+                type="text"
+                inputMode="decimal"
+                className={field}
+                style={{ width: "5ch", textAlign: "right" }}
+                value={v}
+                placeholder={computed ? (computed[i] * 100).toFixed(0) : "0"}
+                onChange={(e) => setManual(m => m.map((x, j) => (j === i ? e.target.value : x)))}
+              />
+              %
+            </label>
+          ))}
+          <span className="text-xs text-neutral-500">合計が 100 でなくても割合に直します（例: 設定6だけ 1 → 設定6と決め打ち）</span>
+        </div>
+      ) : !computed ? (
+        <p className="text-xs text-neutral-500" style={{ margin: 0 }}>総回転数を入力すると、設定判別と同じ方法で見込みを出します。</p>
+      ) : null}
+
+      <div style={row}>
+        <span>打法</span>
+        <select className={field} value={strategy?.key ?? ""} onChange={(e) => setStrategyKey(e.target.value)}>
+          {strategies.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+        </select>
+        <span>残り</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          className={field}
+          style={{ width: "6ch", textAlign: "right" }}
+          value={draft.minutes}
+          placeholder="120"
+          onChange={(e) => update({ minutes: e.target.value })}
+        />
+        <span>分 ×</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          className={field}
+          style={{ width: "6ch", textAlign: "right" }}
+          value={draft.gamesPerHour}
+          placeholder={String(DEFAULT_GAMES_PER_HOUR)}
+          onChange={(e) => update({ gamesPerHour: e.target.value })}
+        />
+        <span>G/時 ＝ 約 {formatInt(games)}G</span>
+      </div>
+      <div style={row}>
+        <span>予算</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          className={field}
+          style={{ width: "8ch", textAlign: "right" }}
+          value={draft.budgetYen}
+          placeholder="20000"
+          onChange={(e) => update({ budgetYen: e.target.value })}
+        />
+        <span>円（1000円 =</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          className={field}
+          style={{ width: "4ch", textAlign: "right" }}
+          value={draft.lendPer1000}
+          placeholder={String(DEFAULT_LEND_PER_1000)}
+          onChange={(e) => update({ lendPer1000: e.target.value })}
+        />
+        <span>枚 → {formatInt(budgetCoins)}枚）</span>
+        <span>交換率</span>
+        <select className={field} value={rate.label} onChange={(e) => update({ rate: e.target.value })}>
+          {EXCHANGE_RATES.map(r => <option key={r.label} value={r.label}>{r.label}</option>)}
+        </select>
+      </div>
+
+      {advice ? (
+        <>
+          {unverifiedNote && (
+            <div className="text-xs" style={{ color: "#7a5300" }}>
+              ⚠️ この機種の数値は確かめていない目安のため、期待値・予算切れの確率も目安です。{unverifiedNote}
+            </div>
+          )}
+          <div
+            style={{
+              fontSize: 13,
+              padding: "8px 10px",
+              borderRadius: 8,
+              background: advice.diff > 0 ? "#e6f4ea" : "#fde2e2",
+              color: advice.diff > 0 ? "#14532d" : "#9b1c1c",
+            }}
+          >
+            {advice.diff > 0 ? "続行の期待値はプラスです。" : "続行の期待値はマイナスです（ヤメ寄り）。"}
+            残り約 {formatInt(advice.games)}G で期待差枚 <b>{signed(advice.diff)}枚</b>（±{formatInt(advice.diffSd)}）、
+            {rate.label}で <b>{signed(advice.yen)}円</b>。
+            予算 {formatInt(budgetYen)}円を使い切る確率は約 <b>{formatPercent(advice.ruin, 0)}</b>。
+          </div>
+          {advice.breakEven && (
+            <div className="text-xs" style={{ margin: 0 }}>
+              損益分岐: 設定{advice.breakEven.threshold}以上（期待差枚がプラスの設定）の見込みが
+              <b> {formatPercent(advice.breakEven.need, 0)}</b> 以上ならプラス。今の見込みは {formatPercent(advice.breakEven.current, 0)}。
+            </div>
+          )}
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+              <thead>
+                <tr className="border-b">
+                  <th style={{ ...cell, textAlign: "left" }}>設定</th>
+                  <th style={cell}>見込み</th>
+                  <th style={cell}>期待差枚</th>
+                  <th style={cell}>円換算</th>
+                  <th style={cell}>機械割</th>
+                  <th style={cell}>予算切れ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {advice.perSetting.map(s => (
+                  <tr key={s.setting} className="border-b">
+                    <td style={{ ...cell, textAlign: "left" }}>設定{s.setting}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{formatPercent(s.weight, 1)}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{signed(s.diff)}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{signed(s.diff * yenPerCoin)}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{formatPercent(s.payout, 1)}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{formatPercent(s.ruin, 0)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-neutral-500">設定の見込みと残り時間を入力すると、続行したときの期待値を表示します。</p>
+      )}
+      <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+        順算と同じ前提（小役の払い出し・ボーナス平均枚数）で計算しています。円換算は出た枚数を交換したときの値で、
+        非等価で現金投資する分の目減りは含みません。予算切れの確率はボーナスの跳ねをならした近似なので目安です。
+      </p>
+    </div>
+  );
+}
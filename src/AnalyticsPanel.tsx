@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from "react";
+import {
+  aggregateHistory,
+  GROUP_LABELS,
+  METRICS,
+  type GroupBy,
+  type GroupStat,
+  type Metric,
+} from "./analytics.ts";
+import type { HistoryRow } from "./history.ts";
+import type { PresetMap } from "./presets.ts";
+import type { StrategyProfile } from "./strategies.ts";
+import { formatInt, formatProb } from "./format.ts";
+
+/* =========================================================
+   集計（ホール・日付・曜日・台番ごとの傾向）
+========================================================= */
+
+type Props = {
+  rows: HistoryRow[];
+  presets: PresetMap;
+  strategies: StrategyProfile[];
+};
+
+function formatMetric(m: Metric, v: number) {
+  if (m === "avgSetting") return isFinite(v) ? v.toFixed(2) : "-";
+  if (m === "avgDiff") return isFinite(v) ? `${v > 0 ? "+" : ""}${formatInt(v)}` : "-";
+  return formatProb(v);
+}
+
+export default function AnalyticsPanel({ rows, presets, strategies }: Props) {
+  const [by, setBy] = useState<GroupBy>("hall");
+  const [metric, setMetric] = useState<Metric>("grapeProb");
+  const [strategyKey, setStrategyKey] = useState(() => strategies[0]?.key ?? "");
+  const strategy = strategies.find(s => s.key === strategyKey) ?? strategies[0];
+
+  const stats = useMemo(
+    () => (strategy ? aggregateHistory(rows, by, strategy.capture, presets) : []),
+    [rows, by, strategy, presets],
+  );
+
+  const cell: React.CSSProperties = { padding: "4px 6px", textAlign: "right", whiteSpace: "nowrap" };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 flex-wrap" style={{ fontSize: 12 }}>
+        <select className="h-9 px-2 rounded-lg border" aria-label="集計の単位" value={by} onChange={(e) => setBy(e.target.value as GroupBy)}>
+          {(Object.keys(GROUP_LABELS) as GroupBy[]).map(k => <option key={k} value={k}>{GROUP_LABELS[k]}ごと</option>)}
+        </select>
+        <select className="h-9 px-2 rounded-lg border" aria-label="グラフの指標" value={metric} onChange={(e) => setMetric(e.target.value as Metric)}>
+          {(Object.keys(METRICS) as Metric[]).map(k => <option key={k} value={k}>{METRICS[k].label}</option>)}
+        </select>
+        <span>ぶどうの打法</span>
+        <select className="h-9 px-2 rounded-lg border" value={strategy?.key ?? ""} onChange={(e) => setStrategyKey(e.target.value)}>
+          {strategies.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+        </select>
+      </div>
+
+      {stats.length === 0 ? (
+        <p className="text-sm text-neutral-500">入力値の残っている履歴がありません。</p>
+      ) : (
+        <>
+          <BarChart stats={stats} metric={metric} />
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+              <thead>
+                <tr className="bg-neutral-50">
+                  <th style={{ ...cell, textAlign: "left" }}>{GROUP_LABELS[by]}</th>
+                  <th style={cell}>件数</th>
+                  <th style={cell}>総G</th>
+                  <th style={cell}>BIG</th>
+                  <th style={cell}>REG</th>
+                  <th style={cell}>合算</th>
+                  <th style={cell}>ぶどう</th>
+                  <th style={cell}>期待設定</th>
+                  <th style={cell}>平均差枚</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map(s => (
+                  <tr key={s.key} className="border-b last:border-0">
+                    <td style={{ ...cell, textAlign: "left" }}>{s.label}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{s.records}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{formatInt(s.G)}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{formatProb(s.bigProb)}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{formatProb(s.regProb)}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{formatProb(s.combinedProb)}</td>
+                    <td className="font-mono tabular-nums" style={{ ...cell, fontWeight: 700 }}>{formatProb(s.grapeProb)}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{formatMetric("avgSetting", s.avgSetting)}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{formatMetric("avgDiff", s.avgDiff)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+            確率は各グループの総G ÷ 回数の合計です。期待設定は設定別の確率がある機種だけの平均です。
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+// 横棒グラフ（良い値ほど長い棒。外部サービスを使わず SVG で描く）
+function BarChart({ stats, metric }: { stats: GroupStat[]; metric: Metric }) {
+  const { lowerIsBetter } = METRICS[metric];
+  const values = stats.map(s => s[metric]);
+  const finite = values.filter(v => isFinite(v));
+  const lo = Math.min(...finite);
+  const hi = Math.max(...finite);
+
+  const rowH = 22;
+  const labelW = 90;
+  const valueW = 70;
+  const width = 360;
+  const barMax = width - labelW - valueW;
+  // 差が小さくても比べられるよう、最小値〜最大値を棒の 15%〜100% に割り当てる
+  const ratio = (v: number) => {
+    if (!isFinite(v)) return 0;
+    if (hi === lo) return 1;
+    const t = (v - lo) / (hi - lo);
+    return 0.15 + 0.85 * (lowerIsBetter ? 1 - t : t);
+  };
+
+  return (
+    <svg
+      role="img"
+      aria-label={`${METRICS[metric].label}のグラフ`}
+      viewBox={`0 0 ${width} ${stats.length * rowH + 4}`}
+      style={{ width: "100%", maxWidth: 560, display: "block" }}
+    >
+      {stats.map((s, i) => {
+        const y = i * rowH + 2;
+        const v = values[i];
+        const best = isFinite(v) && v === (lowerIsBetter ? lo : hi);
+        return (
+          <g key={s.key}>
+            <text x={labelW - 6} y={y + rowH / 2 + 4} fontSize={11} textAnchor="end">
+              {s.label.length > 8 ? `${s.label.slice(0, 8)}…` : s.label}
+            </text>
+            <rect x={labelW} y={y + 3} width={barMax * ratio(v)} height={rowH - 6} rx={3} fill={best ? "#7c3aed" : "#c4b5fd"} />
+            <text x={labelW + barMax * ratio(v) + 4} y={y + rowH / 2 + 4} fontSize={11}>
+              {formatMetric(metric, v)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -1,57 +1,142 @@
-import React, { useMemo, useState, useRef, useEffect } from "react";
-import Tesseract from "tesseract.js";
+import React, { useCallback, useMemo, useState, useRef, useEffect } from "react";
+import {
+  PRESETS,
+  DEFAULT_MODEL,
+  BUNDLED_CATALOG,
+  CATALOG,
+  CATALOG_ERRORS,
+  UNVERIFIED_NOTES,
+  USING_STORED_CATALOG,
+  isBuiltinPreset,
+  type MachinePreset,
+  type PresetMap,
+  type SettingTable,
+} from "./presets.ts";
+import {
+  loadCustomPresets,
+  parsePreset,
+  saveCustomPresets,
+  validatePresetName,
+  copyName,
+  exportCustomPresetsJson,
+  importCustomPresetsJson,
+} from "./customPresets.ts";
+import { clearStoredCatalog, exportCatalogJson, parseCatalogText, saveStoredCatalogText } from "./specCatalog.ts";
+import PresetManager from "./PresetManager.tsx";
+import {
+  preprocessImage,
+  loadImageSource,
+  DEFAULT_PREPROCESS,
+  type CropRect,
+  type PreprocessOptions,
+} from "./preprocess.ts";
+import PreprocessPanel from "./PreprocessPanel.tsx";
+import {
+  parsePage,
+  linesFromBlocks,
+  LAYOUT_PROFILES,
+  type LayoutProfile,
+  type PageParse,
+} from "./layoutParse.ts";
+import {
+  mergeParsed,
+  FIELD_LABELS,
+  SPLIT_FIELDS,
+  type FieldCandidate,
+  type FieldKey,
+  type MergeResult,
+  type ParsedFields,
+  type ParsedSource,
+} from "./ocrParse.ts";
+import OcrReviewPanel from "./OcrReviewPanel.tsx";
+import { recognizeSevenSegment, SEG_FIELDS, type SegRegions } from "./sevenSeg.ts";
+import SegmentPanel from "./SegmentPanel.tsx";
+import PwaStatus from "./PwaStatus.tsx";
+import { cancelOcr, isOcrCancelled, recognizeImage, setOcrListener, warmUpOcr } from "./ocrWorker.ts";
+import {
+  calcResultByCapture,
+  cherryOverlap,
+  grapePayOf,
+  reliabilityWarning,
+  splitOf,
+  SPLIT_KEYS,
+  type CaptureInput,
+  type CaptureResult,
+  type Premise,
+  type SplitKey,
+} from "./calc.ts";
+import {
+  numberOr,
+  formatInt,
+  formatProb,
+  formatProbRange,
+  formatIntRange,
+  formatPercent,
+} from "./format.ts";
+import { exportHistory, importHistoryFile, type ExportFormat } from "./historyIO.ts";
+import {
+  buildHistoryRow,
+  listHistory,
+  putHistory,
+  deleteHistory,
+  clearHistory,
+  type HistoryRow,
+} from "./history.ts";
+import HistoryPanel, { type HistoryEditDraft } from "./HistoryPanel.tsx";
+import CounterPanel from "./CounterPanel.tsx";
+import StrategyManager from "./StrategyManager.tsx";
+import ForwardPanel from "./ForwardPanel.tsx";
+import AdvisorPanel from "./AdvisorPanel.tsx";
+import SimulatorPanel from "./SimulatorPanel.tsx";
+import IslandPanel from "./IslandPanel.tsx";
+import AnalyticsPanel from "./AnalyticsPanel.tsx";
+import SharePanel from "./SharePanel.tsx";
+import { clearShareHash, decodeShare, encodeShare, shareUrl, type SharedState } from "./share.ts";
+import TableImportPanel from "./TableImportPanel.tsx";
+import BonusHistoryPanel from "./BonusHistoryPanel.tsx";
+import type { HistorySegment } from "./bonusHistory.ts";
+import type { ImportedMachine } from "./tableImport.ts";
+import {
+  loadIslandRows,
+  newIslandRow,
+  saveIslandRows,
+  type IslandRow,
+  type PremiseResolver,
+} from "./island.ts";
+import {
+  allProfiles,
+  loadStrategySettings,
+  saveStrategySettings,
+  visibleProfiles,
+  type StrategySettings,
+} from "./strategies.ts";
+import type { CounterSession } from "./counter.ts";
+import { estimateSetting, expectedSetting, FACTOR_LABELS, type SettingFactor } from "./settingEstimate.ts";
+import { validateInput, validateResult, type Issue } from "./validate.ts";
 
 /* -----------------------
-   機種プリセット
------------------------ */
-const PRESETS = {
-  "マイジャグラーV": {
-    replay: 7.298, cherry: 36, bell: 1024, piero: 1024,
-    bigAvg: 239.25, regAvg: 95.25, cherryPay: 2, bellPay: 14, pieroPay: 10,
-  },
-  "SアイムジャグラーEX": {
-    replay: 7.298, cherry: 35.62, bell: 1092.27, piero: 1092.27,
-    bigAvg: 251.25, regAvg: 95.25, cherryPay: 2, bellPay: 14, pieroPay: 10,
-  },
-  "ハッピージャグラーVⅢ": {
-    replay: 7.298, cherry: 56.55, bell: 655.36, piero: 655.36,
-    bigAvg: 239.7, regAvg: 95.7, cherryPay: 4, bellPay: 14, pieroPay: 10,
-  },
-  "ファンキージャグラー2": {
-    replay: 7.298, cherry: 35.62, bell: 1092.27, piero: 1092.27,
-    bigAvg: 239.25, regAvg: 95.25, cherryPay: 2, bellPay: 14, pieroPay: 10,
-  },
-  "ゴーゴージャグラー3": {
-    replay: 7.298, cherry: 32.2, bell: 1092.27, piero: 1092.27,
-    bigAvg: 239.25, regAvg: 95.25, cherryPay: 2, bellPay: 14, pieroPay: 10,
-  },
-  "ミスタージャグラー": {
-    replay: 7.298, cherry: 37.24, bell: 420, piero: 655,
-    bigAvg: 239.25, regAvg: 95.25, cherryPay: 4, bellPay: 14, pieroPay: 10,
-  },
-} as const;
-
-/* -----------------------
-   永続化（入力と履歴）
+   永続化（入力）
 ----------------------- */
 const STORAGE_KEY = "jug-ocr-v1.2:state";
-const HISTORY_KEY = "jug-ocr-v1.2:history";
-const HISTORY_MAX = 10;
+
+// BIG・REG の単独/チェリー重複の内訳（空欄 = 不明）
+type SplitInput = Record<SplitKey, string>;
+const EMPTY_SPLIT: SplitInput = { bigSolo: "", bigCherry: "", regSolo: "", regCherry: "" };
 
 type SavedState = {
-  modelKey?: keyof typeof PRESETS;
+  modelKey?: string;
   G?: string | number;
   big?: string | number;
   reg?: string | number;
   diff?: string | number;
-};
-
-type HistoryRow = {
-  modelKey: string;
-  probRandom: string;
-  probC90: string;
-  probC100: string;
-  probFull: string;
+  split?: Partial<SplitInput>;
+  hall?: string;
+  machineNo?: string;
+  memo?: string;
+  preprocess?: Partial<PreprocessOptions>;
+  layoutProfile?: LayoutProfile;
+  ocrMode?: OcrMode;
+  segRegions?: SegRegions;
 };
 
 function loadSaved(): SavedState {
@@ -68,44 +153,27 @@ function saveState(partial: Partial<SavedState>) {
     localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...cur, ...partial }));
   } catch {}
 }
-function loadHistory(): HistoryRow[] {
-  try {
-    const raw = localStorage.getItem(HISTORY_KEY);
-    return raw ? (JSON.parse(raw) as HistoryRow[]) : [];
-  } catch {
-    return [];
-  }
-}
-function saveHistory(rows: HistoryRow[]) {
-  try {
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(rows.slice(0, HISTORY_MAX)));
-  } catch {}
-}
 
 /* -----------------------
-   打法ごとの取得率
+   OCR の進捗・画像ごとの結果
 ----------------------- */
-const STRATEGIES = [
-  { key: "random",   label: "適当打ち",         capture: { cherry: 0.667, bell: 0.1,  piero: 0.05 } },
-  { key: "cherry90", label: "チェリー狙い(90%)", capture: { cherry: 0.90,  bell: 0.05, piero: 0.01 } },
-  { key: "cherry100",label: "チェリー狙い(100%)",capture: { cherry: 1.00,  bell: 0.00, piero: 0.00 } },
-  { key: "full",     label: "完全攻略",         capture: { cherry: 1.00,  bell: 1.00, piero: 1.00 } },
-] as const;
-
-/* -----------------------
-   共通ユーティリティ
------------------------ */
-function numberOr(val: any, fallback: number) {
-  const n = typeof val === "number" ? val : parseFloat(String(val ?? "").replace(/,/g, ""));
-  return isFinite(n) ? n : fallback;
-}
-function formatInt(n: number) {
-  if (!isFinite(n)) return "-";
-  return Math.round(n).toLocaleString();
-}
-function formatProb(x: number) {
-  if (!isFinite(x) || x <= 0) return "-";
-  return `1/${x.toFixed(2)}`;
+type OcrProgress = { index: number; total: number; name: string; status: string; progress: number };
+// 読み取り方式（文字の OCR か、データカウンターの 7 セグ）
+type OcrMode = "text" | "segment";
+type OcrImageResult = ParsedSource & { error?: string; method?: string };
+// 確認待ちの読み取り結果（id は読み取りごとにパネルを作り直すため）
+type OcrReview = { id: number; candidates: FieldCandidate[]; merge: MergeResult };
+
+function describeParse(page: PageParse) {
+  const parts: string[] = [];
+  if (page.layout) {
+    const fields = page.layout.picks.map(p => `${FIELD_LABELS[p.field]}←「${p.labelText}」`).join("・");
+    parts.push(`レイアウト「${LAYOUT_PROFILES[page.layout.profile]}」 ${fields}`);
+  }
+  if (page.fromText.length > 0) {
+    parts.push(`テキスト ${page.fromText.map(f => FIELD_LABELS[f]).join("・")}`);
+  }
+  return parts.length > 0 ? parts.join(" ＋ ") : "該当なし";
 }
 
 /* -----------------------
@@ -159,18 +227,28 @@ export default function App() {
     }
   }, []);
 
-  // プリセット
-  const [modelKey, setModelKey] = useState<keyof typeof PRESETS>(() => {
+  // プリセット（組み込み＋カスタム）
+  const [customPresets, setCustomPresets] = useState<PresetMap>(() => loadCustomPresets());
+  const allPresets = useMemo<PresetMap>(() => ({ ...PRESETS, ...customPresets }), [customPresets]);
+  const [modelKey, setModelKey] = useState<string>(() => {
     const s = loadSaved();
-    return (s.modelKey as keyof typeof PRESETS) ?? "マイジャグラーV";
+    const key = s.modelKey ?? DEFAULT_MODEL;
+    return isBuiltinPreset(key) || loadCustomPresets()[key] ? key : DEFAULT_MODEL;
   });
-  const p = PRESETS[modelKey];
+  const p: MachinePreset = allPresets[modelKey] ?? PRESETS[DEFAULT_MODEL];
+  // 機種データ（組み込み・取り込み）のうち数値を確かめていない機種の注意書き
+  const unverifiedNote = isBuiltinPreset(modelKey) ? UNVERIFIED_NOTES[modelKey] : undefined;
+  const [presetLog, setPresetLog] = useState("");
 
   // 入力（初期はブランク）
   const [G, setG]     = useState<string | number>(() => loadSaved().G   ?? "");
   const [big, setBig] = useState<string | number>(() => loadSaved().big ?? "");
   const [reg, setReg] = useState<string | number>(() => loadSaved().reg ?? "");
   const [diff, setDiff] = useState<string | number>(() => loadSaved().diff ?? "");
+  const [split, setSplit] = useState<SplitInput>(() => ({ ...EMPTY_SPLIT, ...loadSaved().split }));
+  const [hall, setHall] = useState<string>(() => loadSaved().hall ?? "");
+  const [machineNo, setMachineNo] = useState<string>(() => loadSaved().machineNo ?? "");
+  const [memo, setMemo] = useState<string>(() => loadSaved().memo ?? "");
 
   // 前提（編集可）
   const [replay, setReplay] = useState<number>(p.replay);
@@ -182,27 +260,71 @@ export default function App() {
   const [cherryPay, setCherryPay] = useState<number>(p.cherryPay);
   const [bellPay, setBellPay] = useState<number>(p.bellPay);
   const [pieroPay, setPieroPay] = useState<number>(p.pieroPay);
+  const [grapePay, setGrapePay] = useState<number>(grapePayOf(p));
+
+  // 打法（取得率）プロファイル
+  const [strategySettings, setStrategySettings] = useState<StrategySettings>(() => loadStrategySettings());
+  function updateStrategySettings(next: StrategySettings) {
+    setStrategySettings(next);
+    saveStrategySettings(next);
+  }
 
   // OCR
   const [ocrBusy, setOcrBusy] = useState(false);
   const [ocrLog, setOcrLog] = useState("");
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null);
+  const [ocrResults, setOcrResults] = useState<OcrImageResult[]>([]);
+  const [ocrMerge, setOcrMerge] = useState<MergeResult | null>(null);
+  const [ocrReview, setOcrReview] = useState<OcrReview | null>(null);
+  // 前処理（設定は保存、画像と切り抜き範囲は再読み取り用に保持）
+  const [preprocess, setPreprocess] = useState<PreprocessOptions>(
+    () => ({ ...DEFAULT_PREPROCESS, ...loadSaved().preprocess })
+  );
+  const [layoutProfile, setLayoutProfile] = useState<LayoutProfile>(
+    () => loadSaved().layoutProfile ?? "auto"
+  );
+  const [ocrMode, setOcrMode] = useState<OcrMode>(() => loadSaved().ocrMode ?? "text");
+  const [segRegions, setSegRegions] = useState<SegRegions>(() => loadSaved().segRegions ?? {});
+  const [ocrFiles, setOcrFiles] = useState<File[]>([]);
+  const [ocrCrops, setOcrCrops] = useState<(CropRect | null)[]>([]);
+  // 中止ボタンが押されたか（画像の切れ目でも確認する）
+  const ocrCancelRef = useRef(false);
+
+  // 共有リンクで開かれたら、読み込むかどうか聞いてから反映する
+  const [incomingShare, setIncomingShare] = useState<SharedState | null>(() => decodeShare(location.hash));
+  useEffect(() => {
+    const onHash = () => setIncomingShare(decodeShare(location.hash));
+    window.addEventListener("hashchange", onHash);
+    return () => window.removeEventListener("hashchange", onHash);
+  }, []);
+
+  // 島の表（ページの取り込みからも追加するのでここで持つ）
+  const [islandRows, setIslandRows] = useState<IslandRow[]>(() => loadIslandRows());
+  useEffect(() => {
+    saveIslandRows(islandRows);
+  }, [islandRows]);
 
   // 履歴
-  const [history, setHistory] = useState<HistoryRow[]>(() => loadHistory());
+  const [history, setHistory] = useState<HistoryRow[]>([]);
+  const [importLog, setImportLog] = useState("");
+
+  useEffect(() => {
+    listHistory()
+      .then(setHistory)
+      .catch((e: unknown) => setImportLog(`❌ 履歴を読み込めませんでした: ${e instanceof Error ? e.message : String(e)}`));
+  }, []);
 
   // 入力・プリセットの保存
   useEffect(() => {
-    saveState({ modelKey, G, big, reg, diff });
-  }, [modelKey, G, big, reg, diff]);
+    saveState({ modelKey, G, big, reg, diff, split, hall, machineNo, memo, preprocess, layoutProfile, ocrMode, segRegions });
+  }, [modelKey, G, big, reg, diff, split, hall, machineNo, memo, preprocess, layoutProfile, ocrMode, segRegions]);
 
   // 参照
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // プリセット切替
-  function loadPreset(key: keyof typeof PRESETS) {
-    setModelKey(key);
-    const np = PRESETS[key];
+  // 前提をまとめて反映
+  function applyPremise(np: Premise) {
     setReplay(np.replay);
     setCherry(np.cherry);
     setBell(np.bell);
@@ -212,97 +334,529 @@ export default function App() {
     setCherryPay(np.cherryPay);
     setBellPay(np.bellPay);
     setPieroPay(np.pieroPay);
-    setG(""); setBig(""); setReg(""); setDiff("");
+    setGrapePay(grapePayOf(np));
   }
 
-  // リセット（入力だけ）
-  function handleReset() {
-    setG(""); setBig(""); setReg(""); setDiff("");
+  // プリセット切替
+  function loadPreset(key: string) {
+    const np = allPresets[key];
+    if (!np) return;
+    setModelKey(key);
+    applyPremise(np);
+    setG(""); setBig(""); setReg(""); setDiff(""); setSplit(EMPTY_SPLIT);
   }
 
-  // 計算コア
-  function calcResultByCapture(capture: { cherry: number; bell: number; piero: number }) {
-    const g = numberOr(G, 0);
-    const B = numberOr(big, 0);
-    const R = numberOr(reg, 0);
-    const D = numberOr(diff, 0);
+  // カスタムプリセット
+  function updateCustomPresets(next: PresetMap) {
+    setCustomPresets(next);
+    saveCustomPresets(next);
+  }
+  function handleSavePreset(name: string) {
+    const n = name.trim();
+    const overwrite = n === modelKey && customPresets[n] != null;
+    const err = validatePresetName(n, customPresets, overwrite);
+    if (err) return err;
+    // 設定別の確率は元の機種から引き継ぐ。入力欄の値は文字列のこともあるので数値に直して確かめる
+    const parsed = parsePreset({ ...premise, settings: p.settings, name: n });
+    if (typeof parsed === "string") return parsed;
+    updateCustomPresets({ ...customPresets, [n]: parsed.preset });
+    setModelKey(n);
+    setPresetLog(`「${n}」を${overwrite ? "上書き" : "保存"}しました。`);
+    return null;
+  }
+  function handleDuplicatePreset(name: string) {
+    const src = customPresets[name];
+    if (!src) return;
+    const n = copyName(name, customPresets);
+    updateCustomPresets({ ...customPresets, [n]: { ...src } });
+    setPresetLog(`「${n}」を作成しました。`);
+  }
+  function handleDeletePreset(name: string) {
+    const next = { ...customPresets };
+    delete next[name];
+    updateCustomPresets(next);
+    // 使用中なら既定の機種に戻す（入力はそのまま）
+    if (name === modelKey) {
+      setModelKey(DEFAULT_MODEL);
+      applyPremise(PRESETS[DEFAULT_MODEL]);
+    }
+    setPresetLog(`「${name}」を削除しました。`);
+  }
+  async function handleImportPresets(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+    const { presets, errors } = await importCustomPresetsJson(file);
+    const names = Object.keys(presets);
+    const overwritten = names.filter(n => customPresets[n]);
+    if (names.length > 0) updateCustomPresets({ ...customPresets, ...presets });
+    const lines = [`${file.name}: ${names.length}件取り込み、エラー${errors.length}件`];
+    if (overwritten.length > 0) lines.push(`上書き: ${overwritten.join("・")}`);
+    lines.push(...errors);
+    setPresetLog(lines.join("\n"));
+  }
 
-    const coinIn = 3 * g - 3 * (g / replay);
-    const outBigReg = B * bigAvg + R * regAvg;
-    const outOthers =
-      (g / cherry) * cherryPay * capture.cherry +
-      (g / bell) * bellPay   * capture.bell   +
-      (g / piero) * pieroPay * capture.piero;
-    const outKnown = outBigReg + outOthers;
+  // 機種データ（カタログ）の取り込み。機種の一覧は起動時に作るので再読み込みで反映する
+  async function handleImportCatalog(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    const { catalog, errors } = parseCatalogText(text);
+    if (!catalog) {
+      setPresetLog([`${file.name}: 取り込めません`, ...errors].join("\n"));
+      return;
+    }
+    if (catalog.revision < BUNDLED_CATALOG.revision) {
+      setPresetLog(`${file.name}: 日付（${catalog.revision}）が組み込み（${BUNDLED_CATALOG.revision}）より古いため取り込みません`);
+      return;
+    }
+    saveStoredCatalogText(text);
+    setPresetLog([`${file.name}: ${catalog.models.length}機種を取り込みました（エラー${errors.length}件）`, ...errors].join("\n"));
+    if (window.confirm("機種データを反映するためにページを再読み込みしますか？")) location.reload();
+  }
+  function handleResetCatalog() {
+    if (!window.confirm("取り込んだ機種データを消して、組み込みの機種データに戻しますか？（ページを再読み込みします）")) return;
+    clearStoredCatalog();
+    location.reload();
+  }
 
-    const grapesCountRaw = (D + coinIn - outKnown) / 8;
-    const grapesCount = Math.max(0, grapesCountRaw);
-    const grapeProb = grapesCount > 0 ? g / grapesCount : Infinity;
+  // リセット（入力だけ）
+  function handleReset() {
+    setG(""); setBig(""); setReg(""); setDiff(""); setSplit(EMPTY_SPLIT);
+  }
 
-    return { grapesCount, grapeProb };
+  // 内訳の入力。単独・重複の両方がそろったら合計も書き換える
+  function updateSplit(key: SplitKey, value: string) {
+    const next = { ...split, [key]: value };
+    setSplit(next);
+    const kind = key.startsWith("big") ? "big" : "reg";
+    const solo = next[`${kind}Solo`];
+    const overlap = next[`${kind}Cherry`];
+    if (solo !== "" && overlap !== "") {
+      (kind === "big" ? setBig : setReg)(String(Number(solo) + Number(overlap)));
+    }
+  }
+  // 内訳を入力・履歴・共有の値で置き換える（無い項目は空欄）
+  function replaceSplit(values: Partial<Record<SplitKey, number>>) {
+    const next = { ...EMPTY_SPLIT };
+    for (const k of SPLIT_KEYS) if (values[k] != null) next[k] = String(values[k]);
+    setSplit(next);
   }
 
+  // 計算に渡す入力と前提
+  const input = useMemo<CaptureInput>(() => {
+    const out: CaptureInput = {
+      G: numberOr(G, 0),
+      big: numberOr(big, 0),
+      reg: numberOr(reg, 0),
+      diff: numberOr(diff, 0),
+    };
+    for (const k of SPLIT_KEYS) if (split[k] !== "") out[k] = numberOr(split[k], 0);
+    return out;
+  }, [G, big, reg, diff, split]);
+  const premise = useMemo<Premise>(
+    () => ({ replay, cherry, bell, piero, bigAvg, regAvg, cherryPay, bellPay, pieroPay, grapePay }),
+    [replay, cherry, bell, piero, bigAvg, regAvg, cherryPay, bellPay, pieroPay, grapePay],
+  );
+
+  const visibleStrategies = useMemo(() => visibleProfiles(strategySettings), [strategySettings]);
   const resultsByStrategy = useMemo(() => {
-    return STRATEGIES.map(s => ({
-      key: s.key,
-      label: s.label,
-      res: calcResultByCapture(s.capture),
+    return visibleStrategies.map(s => {
+      const res = calcResultByCapture(input, premise, s.capture);
+      return { key: s.key, label: s.label, res, issue: validateResult(input, res, p.settings) };
+    });
+  }, [input, premise, visibleStrategies, p]);
+
+  // 入力の整合性（項目ごとの注意）
+  const inputIssues = useMemo(() => validateInput(input, premise, p.settings), [input, premise, p]);
+
+  // 回転数不足の警告（いずれかの打法で出ていれば表示）
+  const reliability = useMemo(() => {
+    const warnings = resultsByStrategy.map(r => reliabilityWarning(input.G, r.res));
+    return warnings.find(w => w?.level === "danger") ?? warnings.find(w => w != null) ?? null;
+  }, [resultsByStrategy, input]);
+
+  // 設定判別（打法ごとの逆算ぶどう回数で推定）
+  const settingByStrategy = useMemo(() => {
+    const table = p.settings;
+    return resultsByStrategy.map(r => ({
+      key: r.key,
+      label: r.label,
+      est: table
+        ? estimateSetting({
+            G: input.G,
+            big: input.big,
+            reg: input.reg,
+            grapes: r.res.grapesCount,
+            bigCherry: cherryOverlap(input, "big"),
+            regCherry: cherryOverlap(input, "reg"),
+          }, table)
+        : null,
     }));
-  }, [G, big, reg, diff, replay, cherry, bell, piero, bigAvg, regAvg, cherryPay, bellPay, pieroPay]);
+  }, [resultsByStrategy, input, p]);
+
+  // 履歴の保存失敗はログ欄に出す
+  function reportHistoryError(e: unknown) {
+    setImportLog(`❌ 履歴を保存できませんでした: ${e instanceof Error ? e.message : String(e)}`);
+  }
 
   // 履歴に追加/リセット
-  function handleAddHistory() {
-    const lookup = Object.fromEntries(
-      resultsByStrategy.map(r => [r.key, r.res.grapeProb] as const)
-    );
-    const row: HistoryRow = {
-      modelKey: modelKey as string,
-      probRandom: formatProb(lookup["random"] ?? Infinity),
-      probC90:    formatProb(lookup["cherry90"] ?? Infinity),
-      probC100:   formatProb(lookup["cherry100"] ?? Infinity),
-      probFull:   formatProb(lookup["full"] ?? Infinity),
-    };
-    const next = [row, ...history].slice(0, HISTORY_MAX);
-    setHistory(next);
-    saveHistory(next);
+  async function handleAddHistory() {
+    const row = buildHistoryRow(modelKey, input, premise, { hall, machineNo, memo });
+    setHistory(h => [row, ...h]);
+    await putHistory(row).catch(reportHistoryError);
   }
-  function handleResetHistory() {
-    setHistory([]);
-    saveHistory([]);
+  // 島の表：今の機種は編集中の前提、それ以外はプリセットの前提で計算
+  const resolveIslandPremise = useCallback<PremiseResolver>(key => {
+    if (key === modelKey) return { premise, settings: p.settings };
+    const preset = allPresets[key];
+    return preset ? { premise: preset, settings: preset.settings } : null;
+  }, [modelKey, premise, p, allPresets]);
+  function handleOpenIslandRow(row: IslandRow) {
+    const preset = allPresets[row.modelKey];
+    if (preset && row.modelKey !== modelKey) {
+      setModelKey(row.modelKey);
+      applyPremise(preset);
+    }
+    setG(row.G); setBig(row.big); setReg(row.reg); setDiff(row.diff);
+    setSplit(EMPTY_SPLIT);
+    setMachineNo(row.number);
+    window.scrollTo({ top: 0, behavior: "smooth" });
   }
 
-  // 画像 → OCR → 自動入力
-  async function handleImageFiles(files: FileList | null) {
-    if (!files || files.length === 0) return;
-    setOcrBusy(true); setOcrLog("");
+  // 取り込んだページ・表の1台を計算機へ（機種が分からなければ今の機種のまま）
+  function handleOpenImported(m: ImportedMachine) {
+    const preset = m.modelKey ? allPresets[m.modelKey] : undefined;
+    if (preset && m.modelKey !== modelKey) {
+      setModelKey(m.modelKey!);
+      applyPremise(preset);
+    }
+    setG(String(m.G)); setBig(String(m.big)); setReg(String(m.reg));
+    setDiff(m.diff == null ? "" : String(m.diff));
+    setSplit(EMPTY_SPLIT);
+    if (m.number) setMachineNo(m.number);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+  // 大当たり履歴の合計を計算機へ（差枚は履歴から分からないのでそのまま）
+  function handleApplyBonusHistory(t: HistorySegment) {
+    setG(String(t.G)); setBig(String(t.big)); setReg(String(t.reg));
+    setSplit(EMPTY_SPLIT);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+  function handleAddImportedToIsland(ms: ImportedMachine[]) {
+    setIslandRows(rs => [
+      ...rs,
+      ...ms.map(m => ({
+        ...newIslandRow(m.modelKey && allPresets[m.modelKey] ? m.modelKey : modelKey, m.number),
+        G: String(m.G),
+        big: String(m.big),
+        reg: String(m.reg),
+        diff: m.diff == null ? "" : String(m.diff),
+      })),
+    ]);
+  }
+
+  // 共有リンクの値で置き換え（この端末に無い機種は既定の機種に前提だけ反映）
+  function acceptShare(shared: SharedState) {
+    const preset = allPresets[shared.modelKey];
+    const key = preset ? shared.modelKey : DEFAULT_MODEL;
+    setModelKey(key);
+    applyPremise({ ...(preset ?? PRESETS[DEFAULT_MODEL]), ...shared.premise });
+    const v = (n?: number) => (n == null ? "" : String(n));
+    setG(v(shared.input.G));
+    setBig(v(shared.input.big));
+    setReg(v(shared.input.reg));
+    setDiff(v(shared.input.diff));
+    replaceSplit(shared.input);
+    dismissShare();
+  }
+  function dismissShare() {
+    clearShareHash();
+    setIncomingShare(null);
+  }
+  const shareLink = useMemo(
+    () => shareUrl(encodeShare(modelKey, input, premise, allPresets[modelKey])),
+    [modelKey, input, premise, allPresets],
+  );
+
+  // 小役カウンター → 履歴（差枚は手入力欄の値）
+  async function handleSaveCounter(session: CounterSession) {
+    const { G: g, big: b, reg: r } = session.counts;
+    const row = buildHistoryRow(modelKey, { G: g, big: b, reg: r, diff: input.diff }, premise, {
+      hall,
+      machineNo,
+      memo,
+      counts: session.counts,
+    });
+    setHistory(h => [row, ...h]);
     try {
-      const file = files[0];
-      setOcrLog(s => s + `読み取り開始: ${file.name}\n`);
-      const { data } = await Tesseract.recognize(file, "jpn+eng", {
-        logger: m => { if (m.status) setOcrLog(s => s + `${m.status} ${Math.round((m.progress ?? 0)*100)}%\n`); }
+      await putHistory(row);
+      return true;
+    } catch (e) {
+      reportHistoryError(e);
+      return false;
+    }
+  }
+  function handleApplyCounter(session: CounterSession) {
+    setG(String(session.counts.G));
+    setBig(String(session.counts.big));
+    setReg(String(session.counts.reg));
+    setSplit(EMPTY_SPLIT);
+  }
+  async function handleResetHistory() {
+    setHistory([]);
+    await clearHistory().catch(reportHistoryError);
+  }
+
+  // 履歴 → 計算機へ復元
+  function handleRestoreHistory(h: HistoryRow) {
+    if (!h.input) {
+      setImportLog(`⚠️ ${h.modelKey} の履歴には入力値が保存されていないため復元できません。「編集」で入力値を補えます。`);
+      return;
+    }
+    const preset = allPresets[h.modelKey];
+    if (preset) setModelKey(h.modelKey);
+    const np = h.premise ?? preset;
+    if (np) applyPremise(np);
+    setG(String(h.input.G));
+    setBig(String(h.input.big));
+    setReg(String(h.input.reg));
+    setDiff(String(h.input.diff));
+    replaceSplit(h.input);
+    setHall(h.hall ?? "");
+    setMachineNo(h.machineNo ?? "");
+    setMemo(h.memo ?? "");
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  // 保存できたら null、入力値が正しくなければ理由を返す（編集欄はそのまま）
+  function handleEditHistory(h: HistoryRow, draft: HistoryEditDraft): string | null {
+    const fields = [draft.G, draft.big, draft.reg, draft.diff];
+    let next: HistoryRow;
+    if (fields.every(v => !v.trim()) && !h.input) {
+      // 入力値の無い古い履歴は打った日・ホール・台番・メモだけ更新
+      next = {
+        ...h,
+        playDate: draft.playDate.trim() || undefined,
+        hall: draft.hall.trim() || undefined,
+        machineNo: draft.machineNo.trim() || undefined,
+        memo: draft.memo.trim() || undefined,
+      };
+    } else {
+      const [g, b, r, d] = fields.map(v => numberOr(v, NaN));
+      if (!(Number.isInteger(g) && g > 0)) return "総回転数は 1 以上の整数で入力してください。";
+      if (!(Number.isInteger(b) && b >= 0 && Number.isInteger(r) && r >= 0)) return "BIG・REG は 0 以上の整数で入力してください。";
+      if (!Number.isInteger(d)) return "差枚は整数で入力してください。";
+      const np = h.premise ?? allPresets[h.modelKey];
+      if (!np) return `「${h.modelKey}」の前提が無いため、入力値を直せません。`;
+      next = buildHistoryRow(h.modelKey, { ...splitOf(h.input), G: g, big: b, reg: r, diff: d }, np, {
+        id: h.id,
+        createdAt: h.createdAt,
+        playDate: draft.playDate,
+        hall: draft.hall,
+        machineNo: draft.machineNo,
+        memo: draft.memo,
+        counts: h.counts,
       });
-      const text = (data.text || "").trim();
-      setOcrLog(s => s + "\n--- 抽出テキスト ---\n" + text + "\n-------------------\n");
+    }
+    setHistory(rows => rows.map(row => (row.id === h.id ? next : row)));
+    void putHistory(next).catch(reportHistoryError);
+    return null;
+  }
+
+  async function handleDeleteHistory(h: HistoryRow) {
+    setHistory(rows => rows.filter(r => r.id !== h.id));
+    await deleteHistory(h.id).catch(reportHistoryError);
+  }
 
-      const parsed = parseFromText(text);
-      if (parsed) {
-        if (parsed.modelKey && PRESETS[parsed.modelKey as keyof typeof PRESETS]) {
-          loadPreset(parsed.modelKey as keyof typeof PRESETS);
+  // 履歴の書き出し/取り込み
+  function handleExport(format: ExportFormat, rows: HistoryRow[]) {
+    exportHistory(format, buildHistoryRow(modelKey, input, premise, { hall, machineNo, memo }), rows);
+  }
+  async function handleImportFile(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      const { rows, errors, skippedCurrent, duplicates } = await importHistoryFile(file, allPresets, history);
+      if (rows.length > 0) {
+        await putHistory(rows);
+        setHistory(await listHistory());
+      }
+      const lines = [`${file.name}: ${rows.length}件取り込み、エラー${errors.length}件`];
+      if (duplicates > 0) lines.push(`取り込み済みの${duplicates}件は飛ばしました`);
+      if (skippedCurrent > 0) lines.push(`種別「現在」の${skippedCurrent}行（書き出し時の入力欄）は飛ばしました`);
+      for (const e of errors) lines.push(e.line > 0 ? `${e.line}行目: ${e.message}` : e.message);
+      setImportLog(lines.join("\n"));
+    } catch (e) {
+      setImportLog(`❌ 読み込みエラー: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  // 画像 → OCR → 自動入力（複数枚は順番に読み取り、項目ごとにまとめる）
+  function handleImageFiles(files: FileList | null) {
+    // ドロップでは画像以外も混ざるので除く
+    const list = Array.from(files ?? []).filter(f => !f.type || f.type.startsWith("image/"));
+    if (list.length === 0) return;
+    setOcrFiles(list);
+    setOcrCrops(list.map(() => null));
+    if (ocrMode === "segment") void runSegment(list, segRegions);
+    else void runOcr(list, list.map(() => null));
+  }
+
+  // 読み取り本体（前処理の設定を変えての再実行もここ）
+  async function runOcr(list: File[], crops: (CropRect | null)[]) {
+    if (list.length === 0 || ocrBusy) return;
+    const names = Object.keys(allPresets);
+    setOcrBusy(true); setOcrLog(""); setOcrResults([]); setOcrMerge(null);
+    setOcrReview(null);
+    const results: OcrImageResult[] = [];
+    const candidates: FieldCandidate[] = [];
+    ocrCancelRef.current = false;
+    // 前処理の間に worker を起動しておく（2回目以降は起動済みのものを使う）
+    warmUpOcr();
+    setOcrListener(m => setOcrProgress(p => p && { ...p, ...m }));
+    try {
+      for (const [i, file] of list.entries()) {
+        if (ocrCancelRef.current) break;
+        const source = list.length > 1 ? `#${i + 1} ${file.name}` : file.name;
+        setOcrProgress({ index: i, total: list.length, name: file.name, status: "", progress: 0 });
+        setOcrLog(s => s + `読み取り開始: ${source}\n`);
+        try {
+          let image: File | HTMLCanvasElement = file;
+          if (preprocess.enabled) {
+            const bitmap = await loadImageSource(file);
+            try {
+              image = preprocessImage(bitmap, preprocess, crops[i] ?? null).canvas;
+            } finally {
+              bitmap.close();
+            }
+          }
+          if (ocrCancelRef.current) break;
+          const { data } = await recognizeImage(image);
+          const text = (data.text || "").trim();
+          setOcrLog(s => s + `\n--- 抽出テキスト（${source}） ---\n` + text + "\n-------------------\n");
+          const page = parsePage(text, linesFromBlocks(data.blocks), layoutProfile, names, source, data.confidence);
+          const method = describeParse(page);
+          setOcrLog(s => s + `読み取り方法: ${method}\n`);
+          results.push({ source, parsed: page.parsed, method });
+          candidates.push(...page.candidates);
+        } catch (e) {
+          if (isOcrCancelled(e)) break;
+          const message = e instanceof Error ? e.message : String(e);
+          results.push({ source, parsed: null, error: message });
+          setOcrLog(s => s + `\n❌ OCRエラー（${source}）: ${message}\n`);
         }
-        if (parsed.G   != null) setG(parsed.G);
-        if (parsed.big != null) setBig(parsed.big);
-        if (parsed.reg != null) setReg(parsed.reg);
-        if (parsed.diff!= null) setDiff(parsed.diff);
-        setOcrLog(s => s + "\n✅ 数値を反映しました。\n");
-      } else {
-        setOcrLog(s => s + "\n⚠️ 必要項目を特定できませんでした。数値を大きく写したスクショでお試しください。\n");
+        setOcrResults([...results]);
       }
+
+      if (ocrCancelRef.current) {
+        setOcrLog(s => s + "\n⏹ 読み取りを中止しました。\n");
+        return;
+      }
+      reviewOcrResults(results, candidates);
     } catch (e: any) {
       setOcrLog(s => s + `\n❌ OCRエラー: ${e?.message || e}\n`);
     } finally {
+      setOcrListener(null);
       setOcrBusy(false);
+      setOcrProgress(null);
     }
   }
+  // 7セグの読み取り（Tesseract は使わず、指定した範囲の画素から数字を判定）
+  async function runSegment(list: File[], regions: SegRegions) {
+    if (list.length === 0 || ocrBusy) return;
+    setOcrResults([]); setOcrMerge(null); setOcrReview(null);
+    if (!SEG_FIELDS.some(f => regions[f])) {
+      setOcrLog("📐 画像の上で総回転数・BIG・REG の数字の範囲をなぞってから「7セグで読み取る」を押してください。\n");
+      return;
+    }
+    setOcrBusy(true); setOcrLog("");
+    const results: OcrImageResult[] = [];
+    const candidates: FieldCandidate[] = [];
+    ocrCancelRef.current = false;
+    try {
+      for (const [i, file] of list.entries()) {
+        if (ocrCancelRef.current) break;
+        const source = list.length > 1 ? `#${i + 1} ${file.name}` : file.name;
+        try {
+          const bitmap = await loadImageSource(file);
+          try {
+            if (ocrCancelRef.current) break;
+            const found = recognizeSevenSegment(bitmap, regions, source);
+            for (const r of found.readings) {
+              const note = r.value == null ? " ⚠️ 読めない桁があります" : r.confidence < 60 ? " ⚠️ 自信のない桁があります" : "";
+              setOcrLog(s => s + `${source} ${FIELD_LABELS[r.field]}: ${r.text || "（数字が見つかりません）"}${note}\n`);
+            }
+            results.push({ source, parsed: found.parsed, method: "7セグ" });
+            candidates.push(...found.candidates);
+          } finally {
+            bitmap.close();
+          }
+        } catch (e) {
+          const message = e instanceof Error ? e.message : String(e);
+          results.push({ source, parsed: null, error: message });
+          setOcrLog(s => s + `\n❌ 読み取りエラー（${source}）: ${message}\n`);
+        }
+        setOcrResults([...results]);
+      }
+
+      if (ocrCancelRef.current) {
+        setOcrLog(s => s + "\n⏹ 読み取りを中止しました。\n");
+        return;
+      }
+      reviewOcrResults(results, candidates);
+    } catch (e) {
+      setOcrLog(s => s + `\n❌ 読み取りエラー: ${e instanceof Error ? e.message : String(e)}\n`);
+    } finally {
+      setOcrBusy(false);
+    }
+  }
+  // 読み取り結果はすぐには反映せず、確認パネルで選んでもらう（OCR・7セグ共通）
+  function reviewOcrResults(results: OcrImageResult[], candidates: FieldCandidate[]) {
+    const merge = mergeParsed(results);
+    setOcrMerge(merge);
+    const { merged, conflicts } = merge;
+    for (const c of conflicts) {
+      const detail = c.values.map(v => `${v.value}（${v.sources.join("・")}）`).join(" / ");
+      setOcrLog(s => s + `\n⚠️ ${FIELD_LABELS[c.field]}が画像ごとに食い違います: ${detail}\n`);
+    }
+    if (candidates.length > 0) {
+      setOcrReview({ id: Date.now(), candidates, merge });
+      setOcrLog(s => s + "\n👀 確認パネルで値を選んで「まとめて反映」を押してください。\n");
+    } else if (Object.keys(merged).length === 0 && conflicts.length === 0) {
+      setOcrLog(s => s + "\n⚠️ 必要項目を特定できませんでした。数値を大きく写したスクショでお試しください。\n");
+    }
+  }
+  function cancelRunningOcr() {
+    ocrCancelRef.current = true;
+    cancelOcr();
+  }
+  // 確認パネルで選んだ値をまとめて反映（機種を切り替えても入力済みの値は消さない）
+  function applyOcrFields(fields: ParsedFields) {
+    if (fields.modelKey && allPresets[fields.modelKey] && fields.modelKey !== modelKey) {
+      setModelKey(fields.modelKey);
+      applyPremise(allPresets[fields.modelKey]);
+    }
+    if (fields.G   != null) setG(fields.G);
+    if (fields.big != null) setBig(fields.big);
+    if (fields.reg != null) setReg(fields.reg);
+    if (fields.diff!= null) setDiff(fields.diff);
+    // 内訳は読めた項目だけ差し替え、単独・重複の両方があって合計が無ければ合計も埋める
+    if (SPLIT_FIELDS.some(f => fields[f] != null)) {
+      const next = { ...split };
+      for (const k of SPLIT_KEYS) if (fields[k] != null) next[k] = String(fields[k]);
+      setSplit(next);
+      if (fields.big == null && fields.bigSolo != null && fields.bigCherry != null) setBig(fields.bigSolo + fields.bigCherry);
+      if (fields.reg == null && fields.regSolo != null && fields.regCherry != null) setReg(fields.regSolo + fields.regCherry);
+    }
+    const applied = (Object.keys(fields) as FieldKey[]).map(f => FIELD_LABELS[f]).join("・");
+    setOcrLog(s => s + `\n✅ ${applied} を反映しました。\n`);
+    setOcrReview(null);
+  }
+  function rejectOcrFields() {
+    setOcrLog(s => s + "\n🗑 読み取り結果を破棄しました。\n");
+    setOcrReview(null);
+  }
+
   function onDrop(e: React.DragEvent<HTMLDivElement>) {
     e.preventDefault();
     handleImageFiles(e.dataTransfer.files);
@@ -323,6 +877,31 @@ export default function App() {
           </h1>
           <div className="text-6px opacity-70">画像OCR対応※β版</div>
         </header>
+        <PwaStatus />
+        {incomingShare && (
+          <div
+            className="space-y-2"
+            style={{ border: "2px solid #333", borderRadius: 12, padding: 12, background: "#fff", fontSize: 13 }}
+          >
+            <div>
+              共有リンクの値（{incomingShare.modelKey}
+              {incomingShare.input.G != null && `・${formatInt(incomingShare.input.G)}G`}）があります。今の入力を置き換えますか？
+            </div>
+            {!allPresets[incomingShare.modelKey] && (
+              <div className="text-xs" style={{ color: "#7a5300" }}>
+                ⚠️ この端末に「{incomingShare.modelKey}」が無いため、{DEFAULT_MODEL}に共有された前提を反映します。
+              </div>
+            )}
+            <div className="flex gap-2">
+              <button type="button" className="px-3 h-9 rounded-lg border hover:bg-neutral-50" onClick={() => acceptShare(incomingShare)}>
+                読み込む
+              </button>
+              <button type="button" className="px-3 h-9 rounded-lg border hover:bg-neutral-50" onClick={dismissShare}>
+                今の入力のままにする
+              </button>
+            </div>
+          </div>
+        )}
 
         {/* セレクト + リセット + 履歴に追加 */}
         <section className="bg-white rounded-2xl shadow p-4 md:p-6">
@@ -330,12 +909,19 @@ export default function App() {
             <select
               aria-label="機種プリセット"
               className="h-10 px-3 rounded-xl border shrink-0"
-              value={modelKey as string}
-              onChange={(e) => loadPreset(e.target.value as keyof typeof PRESETS)}
+              value={modelKey}
+              onChange={(e) => loadPreset(e.target.value)}
             >
               {Object.keys(PRESETS).map((k) => (
                 <option key={k} value={k}>{k}</option>
               ))}
+              {Object.keys(customPresets).length > 0 && (
+                <optgroup label="カスタム">
+                  {Object.keys(customPresets).map((k) => (
+                    <option key={k} value={k}>{k}</option>
+                  ))}
+                </optgroup>
+              )}
             </select>
 
             <button
@@ -354,20 +940,54 @@ export default function App() {
               履歴に追加
             </button>
           </div>
+          {unverifiedNote && (
+            <div className="text-xs" style={{ color: "#7a5300", marginTop: 8 }}>
+              ⚠️ {modelKey}: {unverifiedNote}
+            </div>
+          )}
+          <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+            <input
+              type="text"
+              aria-label="ホール"
+              placeholder="ホール"
+              className="h-10 px-3 rounded-xl border"
+              style={{ flex: "2 1 0", minWidth: 0 }}
+              value={hall}
+              onChange={(e) => setHall(e.target.value)}
+            />
+            <input
+              type="text"
+              aria-label="台番"
+              placeholder="台番"
+              className="h-10 px-3 rounded-xl border"
+              style={{ flex: "1 1 0", minWidth: 0 }}
+              value={machineNo}
+              onChange={(e) => setMachineNo(e.target.value)}
+            />
+          </div>
+          <input
+            type="text"
+            aria-label="メモ"
+            placeholder="メモ（履歴に保存）"
+            className="h-10 px-3 rounded-xl border"
+            style={{ width: "100%", marginTop: 8, boxSizing: "border-box" }}
+            value={memo}
+            onChange={(e) => setMemo(e.target.value)}
+          />
         </section>
 
-        {/* 出力：打法4枚 */}
+        {/* 出力：打法ごとのカード（1行4枚まで） */}
         <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-3">
           <div
             style={{
               display: "grid",
-              gridTemplateColumns: "repeat(4, 1fr)",
+              gridTemplateColumns: `repeat(${Math.min(4, Math.max(1, resultsByStrategy.length))}, 1fr)`,
               gap: 8,
               overflowX: "hidden",
               width: "100%",
             }}
           >
-            {resultsByStrategy.map(({ key, label, res }) => (
+            {resultsByStrategy.map(({ key, label, res, issue }) => (
               <div
                 key={key}
                 style={{
@@ -387,9 +1007,114 @@ export default function App() {
                 <div style={{ fontSize: 16, fontWeight: 700, lineHeight: 1.1 }}>
                   {formatInt(res.grapesCount)}
                 </div>
+                {numberOr(G, 0) > 0 && <CiView res={res} />}
+                {issue && <IssueList issues={[issue]} compact />}
               </div>
             ))}
           </div>
+          {reliability && (
+            <div
+              role="alert"
+              style={{
+                fontSize: 12,
+                padding: "6px 10px",
+                borderRadius: 8,
+                background: reliability.level === "danger" ? "#fde2e2" : "#fff4d6",
+                color: reliability.level === "danger" ? "#9b1c1c" : "#7a5300",
+              }}
+            >
+              ⚠️ {reliability.message}
+            </div>
+          )}
+          {unverifiedNote && (
+            <div
+              role="alert"
+              style={{ fontSize: 12, padding: "6px 10px", borderRadius: 8, background: "#fff4d6", color: "#7a5300" }}
+            >
+              ⚠️ {modelKey}の数値は確かめていない目安のため、逆算・設定判別の結果も目安です。{unverifiedNote}
+            </div>
+          )}
+          <details>
+            <summary className="cursor-pointer text-sm font-semibold">打法（取得率）の設定</summary>
+            <div className="mt-3">
+              <StrategyManager
+                settings={strategySettings}
+                onChange={updateStrategySettings}
+                input={input}
+                premise={premise}
+              />
+            </div>
+          </details>
+        </section>
+
+        {/* 設定判別 */}
+        <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-3">
+          <h2 className="text-sm font-semibold">設定判別（BIG・REG・ぶどう）</h2>
+          {!p.settings ? (
+            <p className="text-sm text-neutral-500">このプリセットには設定別の確率が無いため判別できません。</p>
+          ) : settingByStrategy.every(s => s.est == null) ? (
+            <p className="text-sm text-neutral-500">総回転数を入力すると設定ごとの確率を表示します。</p>
+          ) : (
+            <SettingTableView rows={settingByStrategy} />
+          )}
+          <SplitSummary input={input} settings={p.settings} />
+        </section>
+
+        {/* 共有 */}
+        <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-3">
+          <details>
+            <summary className="cursor-pointer text-sm font-semibold">共有（リンク・QRコード）</summary>
+            <div className="mt-3">
+              <SharePanel url={shareLink} />
+            </div>
+          </details>
+        </section>
+
+        {/* 順算 */}
+        <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-3">
+          <details>
+            <summary className="cursor-pointer text-sm font-semibold">順算（設定・確率から期待差枚と機械割）</summary>
+            <div className="mt-3">
+              <ForwardPanel
+                premise={premise}
+                settings={p.settings}
+                strategies={allProfiles(strategySettings)}
+                G={input.G}
+                diff={input.diff}
+              />
+            </div>
+          </details>
+        </section>
+
+        {/* 続行・ヤメの判断 */}
+        <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-3">
+          <details>
+            <summary className="cursor-pointer text-sm font-semibold">続行・ヤメの判断（期待値・予算切れ・損益分岐）</summary>
+            <div className="mt-3">
+              <AdvisorPanel
+                premise={premise}
+                settings={p.settings}
+                strategies={allProfiles(strategySettings)}
+                input={input}
+                unverifiedNote={unverifiedNote}
+              />
+            </div>
+          </details>
+        </section>
+
+        {/* 精度シミュレーション */}
+        <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-3">
+          <details>
+            <summary className="cursor-pointer text-sm font-semibold">シミュレーション（逆算の精度チェック）</summary>
+            <div className="mt-3">
+              <SimulatorPanel
+                premise={premise}
+                settings={p.settings}
+                strategies={allProfiles(strategySettings)}
+                G={input.G}
+              />
+            </div>
+          </details>
         </section>
 
         {/* 手入力 */}
@@ -408,6 +1133,7 @@ export default function App() {
                 extraLeft={[{ label: "−1000", delta: -1000 }]}
                 extraRight={[{ label: "+1000", delta: 1000 }]}
               />
+              <IssueList issues={inputIssues.G} />
             </div>
           </div>
 
@@ -415,9 +1141,13 @@ export default function App() {
           <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
             <div style={{ flex: "1 1 300px", minWidth: 0 }}>
               <BRField label="BIG回数" value={big} setValue={setBig} />
+              <SplitField kind="big" split={split} onChange={updateSplit} />
+              <IssueList issues={inputIssues.big} />
             </div>
             <div style={{ flex: "1 1 300px", minWidth: 0 }}>
               <BRField label="REG回数" value={reg} setValue={setReg} />
+              <SplitField kind="reg" split={split} onChange={updateSplit} />
+              <IssueList issues={inputIssues.reg} />
             </div>
           </div>
 
@@ -425,53 +1155,65 @@ export default function App() {
           <div style={{ display: "flex", gap: 12 }}>
             <div style={{ flex: "1 1 auto" }}>
               <DiffField label="差枚（±）" value={diff} setValue={setDiff} />
+              <IssueList issues={inputIssues.diff} />
             </div>
           </div>
         </section>
 
-        {/* 履歴（表）＋リセット */}
+        {/* 小役カウンター（実戦） */}
         <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-3">
-          <div className="flex items-center justify-between">
-            <h2 className="text-sm font-semibold">履歴</h2>
-            <button
-              type="button"
-              className="px-3 h-9 rounded-lg border hover:bg-neutral-50"
-              onClick={handleResetHistory}
-            >
-              履歴をリセット
-            </button>
-          </div>
-          <div className="overflow-x-auto">
-            <table className="min-w-full border-collapse">
-              <thead>
-                <tr className="bg-neutral-50 text-sm">
-                  <th className="text-left  p-2">機種名</th>
-                  <th className="text-right p-2">適当打</th>
-                  <th className="text-right p-2">C90%</th>
-                  <th className="text-right p-2">C100%</th>
-                  <th className="text-right p-2">完全攻略</th>
-                </tr>
-              </thead>
-              <tbody>
-                {history.map((h, i) => (
-                  <tr key={i} className="border-b last:border-0">
-                    <td className="p-2">{h.modelKey}</td>
-                    <td className="text-right p-2 font-mono whitespace-nowrap tabular-nums">{h.probRandom}</td>
-                    <td className="text-right p-2 font-mono whitespace-nowrap tabular-nums">{h.probC90}</td>
-                    <td className="text-right p-2 font-mono whitespace-nowrap tabular-nums">{h.probC100}</td>
-                    <td className="text-right p-2 font-mono whitespace-nowrap tabular-nums">{h.probFull}</td>
-                  </tr>
-                ))}
-                {history.length === 0 && (
-                  <tr>
-                    <td className="p-3 text-sm text-neutral-500" colSpan={5}>
-                      まだ履歴がありません。「履歴に追加」を押すとここに溜まります（最大{HISTORY_MAX}件）。
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
-          </div>
+          <details>
+            <summary className="cursor-pointer text-lg font-semibold">小役カウンター（実戦）</summary>
+            <div className="mt-3">
+              <CounterPanel
+                premise={premise}
+                strategies={visibleStrategies}
+                diff={input.diff}
+                onApply={handleApplyCounter}
+                onSave={handleSaveCounter}
+              />
+            </div>
+          </details>
+        </section>
+
+        {/* 島（複数台） */}
+        <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-3">
+          <details>
+            <summary className="cursor-pointer text-lg font-semibold">島まとめて逆算（複数台）</summary>
+            <div className="mt-3">
+              <IslandPanel
+                rows={islandRows}
+                setRows={setIslandRows}
+                modelNames={Object.keys(allPresets)}
+                defaultModel={modelKey}
+                strategies={visibleStrategies}
+                resolve={resolveIslandPremise}
+                onOpen={handleOpenIslandRow}
+              />
+            </div>
+          </details>
+        </section>
+
+        {/* 履歴 */}
+        <HistoryPanel
+          rows={history}
+          importLog={importLog}
+          onRestore={handleRestoreHistory}
+          onEdit={handleEditHistory}
+          onDelete={handleDeleteHistory}
+          onReset={handleResetHistory}
+          onExport={handleExport}
+          onImport={handleImportFile}
+        />
+
+        {/* 集計 */}
+        <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-3">
+          <details>
+            <summary className="cursor-pointer text-lg font-semibold">集計・傾向（ホール・日付・台番）</summary>
+            <div className="mt-3">
+              <AnalyticsPanel rows={history} presets={allPresets} strategies={allProfiles(strategySettings)} />
+            </div>
+          </details>
         </section>
 
         {/* OCR */}
@@ -481,7 +1223,7 @@ export default function App() {
           </p>
           <div className="flex flex-col gap-3">
             <div className="border-2 border-dashed rounded-2xl p-6 text-center">
-              <div className="mb-3">ここに画像をドロップ（PC）</div>
+              <div className="mb-3">ここに画像をドロップ（PC・複数枚可）</div>
               <div className="flex gap-2 justify-center">
                 <button
                   type="button"
@@ -510,11 +1252,79 @@ export default function App() {
                 ref={fileInputRef}
                 type="file"
                 accept="image/*"
+                multiple
                 className="hidden"
                 onChange={(e) => handleImageFiles(e.target.files)}
               />
             </div>
-            {ocrBusy && <div className="text-sm">読み取り中…</div>}
+            <div className="text-sm" style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+              <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                <span>読み取り方式</span>
+                <select
+                  className="h-9 px-2 rounded-lg border"
+                  value={ocrMode}
+                  onChange={(e) => setOcrMode(e.target.value as OcrMode)}
+                >
+                  <option value="text">文字（スクショ・データサイト）</option>
+                  <option value="segment">データカウンター（7セグ）</option>
+                </select>
+              </label>
+              {ocrMode === "text" && (
+                <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                  <span>画面の並び</span>
+                  <select
+                    className="h-9 px-2 rounded-lg border"
+                    value={layoutProfile}
+                    onChange={(e) => setLayoutProfile(e.target.value as LayoutProfile)}
+                  >
+                    {(Object.keys(LAYOUT_PROFILES) as LayoutProfile[]).map(k => (
+                      <option key={k} value={k}>{LAYOUT_PROFILES[k]}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+            {ocrMode === "text" ? (
+              <PreprocessPanel
+                files={ocrFiles}
+                options={preprocess}
+                setOptions={setPreprocess}
+                crops={ocrCrops}
+                setCrop={(i, c) => setOcrCrops(cs => cs.map((x, j) => (j === i ? c : x)))}
+                busy={ocrBusy}
+                onRetry={() => runOcr(ocrFiles, ocrCrops)}
+              />
+            ) : (
+              <SegmentPanel
+                files={ocrFiles}
+                regions={segRegions}
+                setRegions={setSegRegions}
+                busy={ocrBusy}
+                onRead={() => runSegment(ocrFiles, segRegions)}
+              />
+            )}
+            {ocrBusy && (
+              <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                <div style={{ flex: "1 1 auto" }}>
+                  {ocrProgress ? <OcrProgressView progress={ocrProgress} /> : <div className="text-sm">読み取り中…</div>}
+                </div>
+                <button type="button" className="px-3 h-9 rounded-lg border hover:bg-neutral-50 shrink-0" onClick={cancelRunningOcr}>
+                  ⏹ 中止
+                </button>
+              </div>
+            )}
+            {ocrResults.length > 0 && <OcrResultTable results={ocrResults} merge={ocrMerge} />}
+            {ocrReview && (
+              <OcrReviewPanel
+                key={ocrReview.id}
+                candidates={ocrReview.candidates}
+                merge={ocrReview.merge}
+                current={{ modelKey, G, big, reg, diff, ...split }}
+                modelNames={Object.keys(allPresets)}
+                onApply={applyOcrFields}
+                onReject={rejectOcrFields}
+              />
+            )}
             {ocrLog && (
               <pre className="bg-neutral-100 rounded-xl p-3 text-xs overflow-auto max-h-48 whitespace-pre-wrap">
                 {ocrLog}
@@ -523,6 +1333,35 @@ export default function App() {
           </div>
         </section>
 
+        {/* 保存したページ・表の取り込み */}
+        <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-3">
+          <details>
+            <summary className="cursor-pointer text-lg font-semibold">保存したページ・表から取り込み</summary>
+            <div className="mt-3">
+              <TableImportPanel
+                modelNames={Object.keys(allPresets)}
+                onOpen={handleOpenImported}
+                onAddToIsland={handleAddImportedToIsland}
+              />
+            </div>
+          </details>
+        </section>
+
+        {/* 大当たり履歴 */}
+        <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-3">
+          <details>
+            <summary className="cursor-pointer text-lg font-semibold">大当たり履歴（ハマり・区間ごとの逆算）</summary>
+            <div className="mt-3">
+              <BonusHistoryPanel
+                premise={premise}
+                strategies={allProfiles(strategySettings)}
+                diff={input.diff}
+                onApply={handleApplyBonusHistory}
+              />
+            </div>
+          </details>
+        </section>
+
         {/* 前提（編集） → 初期は折りたたみ */}
         <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-4">
           <details>
@@ -537,7 +1376,23 @@ export default function App() {
               <NumberField label="チェリー払い出し" value={cherryPay} setValue={setCherryPay} />
               <NumberField label="ベル払い出し" value={bellPay} setValue={setBellPay} />
               <NumberField label="ピエロ払い出し" value={pieroPay} setValue={setPieroPay} />
+              <NumberField label="ぶどう払い出し" value={grapePay} setValue={setGrapePay} />
             </div>
+            <PresetManager
+              custom={customPresets}
+              currentKey={modelKey}
+              log={presetLog}
+              onSave={handleSavePreset}
+              onDuplicate={handleDuplicatePreset}
+              onDelete={handleDeletePreset}
+              onSelect={loadPreset}
+              onExport={() => exportCustomPresetsJson(customPresets)}
+              onImport={handleImportPresets}
+              catalog={{ revision: CATALOG.revision, stored: USING_STORED_CATALOG, errors: CATALOG_ERRORS }}
+              onExportCatalog={() => exportCatalogJson(CATALOG)}
+              onImportCatalog={handleImportCatalog}
+              onResetCatalog={handleResetCatalog}
+            />
           </details>
         </section>
 
@@ -549,6 +1404,227 @@ export default function App() {
   );
 }
 
+/* =========================================================
+   出力用コンポーネント
+========================================================= */
+
+// 設定判別の表（行=設定、列=打法）
+function SettingTableView({
+  rows,
+}: {
+  rows: { key: string; label: string; est: ReturnType<typeof estimateSetting> }[];
+}) {
+  const factors: SettingFactor[] = ["big", "reg", "grape"];
+  const cell: React.CSSProperties = { padding: "4px 6px", textAlign: "right", whiteSpace: "nowrap" };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+        <thead>
+          <tr className="bg-neutral-50">
+            <th style={{ ...cell, textAlign: "left" }}>設定</th>
+            {rows.map(r => <th key={r.key} style={cell}>{r.label}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {[0, 1, 2, 3, 4, 5].map(i => (
+            <tr key={i} className="border-b">
+              <td style={{ ...cell, textAlign: "left" }}>設定{i + 1}</td>
+              {rows.map(r => {
+                const post = r.est?.posterior ?? [];
+                const isTop = post.length > 0 && post[i] === Math.max(...post);
+                return (
+                  <td
+                    key={r.key}
+                    className="font-mono tabular-nums"
+                    style={{ ...cell, fontWeight: isTop ? 700 : undefined }}
+                  >
+                    {r.est ? formatPercent(post[i]) : "-"}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+          <tr className="border-b">
+            <td style={{ ...cell, textAlign: "left" }}>期待設定</td>
+            {rows.map(r => (
+              <td key={r.key} className="font-mono tabular-nums" style={cell}>
+                {r.est ? expectedSetting(r.est.posterior).toFixed(2) : "-"}
+              </td>
+            ))}
+          </tr>
+          <tr>
+            <td style={{ ...cell, textAlign: "left", verticalAlign: "top" }}>主因</td>
+            {rows.map(r => (
+              <td key={r.key} style={{ ...cell, verticalAlign: "top" }}>
+                {r.est?.dominant ? (
+                  <>
+                    <div style={{ fontWeight: 700 }}>{FACTOR_LABELS[r.est.dominant]}</div>
+                    {factors.map(f => (
+                      <div key={f} style={{ opacity: 0.7 }}>
+                        {FACTOR_LABELS[f]} {formatPercent(r.est!.weight[f], 0)}
+                      </div>
+                    ))}
+                  </>
+                ) : "-"}
+              </td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+      <p className="text-xs text-neutral-500" style={{ marginTop: 4 }}>
+        主因の割合は各要素が設定間の尤度差にどれだけ寄与しているかの目安です。
+      </p>
+    </div>
+  );
+}
+
+// 単独/チェリー重複の実測確率（内訳が入力されたときだけ）
+function SplitSummary({ input, settings }: { input: CaptureInput; settings?: SettingTable }) {
+  const kinds = (["big", "reg"] as const).filter(k => cherryOverlap(input, k) != null);
+  if (kinds.length === 0 || !(input.G > 0)) return null;
+  const usedInTable = kinds.every(k => settings?.[k === "big" ? "bigCherry" : "regCherry"]);
+  return (
+    <div className="text-xs" style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+      {kinds.map(k => {
+        const overlap = cherryOverlap(input, k)!;
+        const solo = Math.max(0, input[k] - overlap);
+        const label = k === "big" ? "BIG" : "REG";
+        return (
+          <div key={k} className="font-mono tabular-nums">
+            単独{label} {solo}回（{formatProb(solo > 0 ? input.G / solo : Infinity)}）・
+            チェリー重複{label} {overlap}回（{formatProb(overlap > 0 ? input.G / overlap : Infinity)}）
+          </div>
+        );
+      })}
+      <div className="text-neutral-500">
+        {usedInTable
+          ? "設定判別は単独・重複を分けて評価しています。"
+          : "この機種の設定表には単独/重複の内訳が無いため、設定判別は合計回数で評価しています（逆算のチェリー払い出しには反映済み）。"}
+      </div>
+    </div>
+  );
+}
+
+// 打法カード内の90%/95%区間
+function CiView({ res }: { res: CaptureResult }) {
+  const line: React.CSSProperties = { fontSize: 10, opacity: 0.7, lineHeight: 1.3, whiteSpace: "nowrap" };
+  return (
+    <div style={{ marginTop: 6, borderTop: "1px dashed #e5e5e5", paddingTop: 4, overflowX: "auto" }}>
+      {([90, 95] as const).map(level => (
+        <div key={level} style={line}>
+          <div>{level}% {formatProbRange(res.ci[level].prob)}</div>
+          <div>回数 {formatIntRange(res.ci[level].count)}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// 入力・打法カードの注意（危険=赤、注意=黄）
+function IssueList({ issues, compact = false }: { issues?: Issue[]; compact?: boolean }) {
+  if (!issues || issues.length === 0) return null;
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 4, marginTop: compact ? 6 : 4 }}>
+      {issues.map((issue, i) => (
+        <div
+          key={i}
+          role="alert"
+          style={{
+            fontSize: compact ? 10 : 12,
+            lineHeight: 1.4,
+            padding: compact ? "4px 6px" : "6px 10px",
+            borderRadius: 8,
+            textAlign: "left",
+            background: issue.level === "danger" ? "#fde2e2" : "#fff4d6",
+            color: issue.level === "danger" ? "#9b1c1c" : "#7a5300",
+          }}
+        >
+          ⚠️ {issue.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// OCR の進み具合（何枚目か＋その画像の進捗）
+function OcrProgressView({ progress }: { progress: OcrProgress }) {
+  const { index, total, name, status, progress: ratio } = progress;
+  const overall = (index + Math.min(Math.max(ratio, 0), 1)) / total;
+  return (
+    <div className="text-sm" style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+      <div>
+        読み取り中 {index + 1}/{total}: {name}
+        {status && <span style={{ opacity: 0.6 }}>（{status} {Math.round(ratio * 100)}%）</span>}
+      </div>
+      <div style={{ height: 6, borderRadius: 3, background: "#e5e5e5", overflow: "hidden" }}>
+        <div style={{ width: `${overall * 100}%`, height: "100%", background: "#333", transition: "width 0.2s" }} />
+      </div>
+    </div>
+  );
+}
+
+// 画像ごとの抽出結果（食い違った項目は色付け）
+function OcrResultTable({ results, merge }: { results: OcrImageResult[]; merge: MergeResult | null }) {
+  // 内訳はどれかの画像で読めたときだけ列を出す
+  const fields: FieldKey[] = [
+    "modelKey", "G", "big", "reg", "diff",
+    ...SPLIT_FIELDS.filter(f => results.some(r => r.parsed?.[f] != null)),
+  ];
+  const conflicted = new Set(merge?.conflicts.map(c => c.field) ?? []);
+  const cell: React.CSSProperties = { padding: "4px 6px", whiteSpace: "nowrap" };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+        <thead>
+          <tr className="bg-neutral-50">
+            <th style={{ ...cell, textAlign: "left" }}>画像</th>
+            {fields.map(f => <th key={f} style={{ ...cell, textAlign: "right" }}>{FIELD_LABELS[f]}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {results.map(r => (
+            <tr key={r.source} className="border-b">
+              <td style={cell}>{r.source}</td>
+              {r.error ? (
+                <td style={{ ...cell, color: "#9b1c1c" }} colSpan={fields.length}>❌ {r.error}</td>
+              ) : (
+                fields.map(f => {
+                  const v = r.parsed?.[f];
+                  return (
+                    <td
+                      key={f}
+                      className="font-mono tabular-nums"
+                      style={{
+                        ...cell,
+                        textAlign: "right",
+                        background: v != null && conflicted.has(f) ? "#fff4d6" : undefined,
+                      }}
+                    >
+                      {v ?? "-"}
+                    </td>
+                  );
+                })
+              )}
+            </tr>
+          ))}
+          {merge && results.length > 1 && (
+            <tr style={{ fontWeight: 700 }}>
+              <td style={cell}>まとめ</td>
+              {fields.map(f => (
+                <td key={f} className="font-mono tabular-nums" style={{ ...cell, textAlign: "right" }}>
+                  {conflicted.has(f) ? "⚠️" : (merge.merged[f] ?? "-")}
+                </td>
+              ))}
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 /* =========================================================
    入力用コンポーネント
 ========================================================= */
@@ -598,6 +1674,40 @@ function BRField({ label, value, setValue }: BRFieldProps) {
   );
 }
 
+// BIG/REG の内訳（単独・チェリー重複）。空欄は不明として扱う
+function SplitField({
+  kind,
+  split,
+  onChange,
+}: {
+  kind: "big" | "reg";
+  split: SplitInput;
+  onChange: (key: SplitKey, value: string) => void;
+}) {
+  const inputStyle: React.CSSProperties = { ...baseInput, width: "6ch", height: 32, fontSize: 14 };
+  const field = (key: SplitKey, label: string) => (
+    <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+      <span>{label}</span>
+      <input
+        type="text"
+        inputMode="numeric"
+        aria-label={FIELD_LABELS[key]}
+        placeholder="-"
+        style={inputStyle}
+        value={split[key]}
+        onChange={(e) => onChange(key, e.target.value.replace(/[^\d]/g, "").slice(0, 4))}
+      />
+    </label>
+  );
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 6, fontSize: 12, flexWrap: "wrap" }}>
+      <span style={{ opacity: 0.7 }}>内訳（任意）</span>
+      {field(kind === "big" ? "bigSolo" : "regSolo", "単独")}
+      {field(kind === "big" ? "bigCherry" : "regCherry", "チェリー重複")}
+    </div>
+  );
+}
+
 // ±ボタン付きの数値入力（汎用）
 function NumberField({
   label,
@@ -750,54 +1860,3 @@ function DiffField({
     </div>
   );
 }
-
-/* -----------------------
-   OCRテキスト → 数値抽出
------------------------ */
-function parseFromText(raw: string) {
-  if (!raw) return null;
-  const text = raw
-    .replace(/[\uFF10-\uFF19]/g, d => String.fromCharCode(d.charCodeAt(0) - 0xFF10 + 0x30))
-    .replace(/[ ,\t]+/g, " ")
-    .replace(/,/g, "")
-    .replace(/Ｇ/g, "G")
-    .replace(/－/g, "-")
-    .replace(/＋/g, "+")
-    .toLowerCase();
-
-  let modelKey: string | undefined;
-  for (const key of Object.keys(PRESETS)) {
-    const keyNorm = key.toLowerCase().replace(/\s/g, "");
-    if (text.replace(/\s/g, "").includes(keyNorm)) { modelKey = key; break; }
-  }
-
-  let G: number | undefined;
-  const gPatterns = [
-    /(総?回転数|g数|回転数)\s*[:：]?\s*(\d{2,6})\s*g?/,
-    /(\d{3,6})\s*g(?!\/)/,
-  ];
-  for (const r of gPatterns) {
-    const m = text.match(r);
-    if (m) { G = parseInt(m[2] || m[1], 10); break; }
-  }
-
-  let big: number | undefined;
-  let reg: number | undefined;
-  const bbPatterns = [/(bb|big|ビッグ)\s*[:：]?\s*(\d{1,3})/];
-  const rbPatterns = [/(rb|reg|レギュラー)\s*[:：]?\s*(\d{1,3})/];
-  for (const r of bbPatterns) { const m = text.match(r); if (m) { big = parseInt(m[2], 10); break; } }
-  for (const r of rbPatterns) { const m = text.match(r); if (m) { reg = parseInt(m[2], 10); break; } }
-
-  let diff: number | undefined;
-  const diffPatterns = [
-    /(差枚(数)?|差玉|差枚数)\s*[:：]?\s*([+-]?\d{1,6})/,
-    /([+-]\d{1,6})\s*(枚)?/,
-  ];
-  for (const r of diffPatterns) {
-    const m = text.match(r);
-    if (m) { diff = parseInt(m[3] || m[1], 10); break; }
-  }
-
-  if (G == null && big == null && reg == null && diff == null) return null;
-  return { modelKey, G, big, reg, diff };
-}
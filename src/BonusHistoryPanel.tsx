@@ -0,0 +1,369 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { calcResultByCapture, type Premise } from "./calc.ts";
+import type { StrategyProfile } from "./strategies.ts";
+import {
+  loadHistoryDraft,
+  parseBonusHistory,
+  saveHistoryDraft,
+  splitHistory,
+  summarizeHistory,
+  type HistorySegment,
+} from "./bonusHistory.ts";
+import { DEFAULT_PREPROCESS, loadImageSource, preprocessImage } from "./preprocess.ts";
+import { recognizeImage } from "./ocrWorker.ts";
+import { formatInt, formatProb, formatProbRange, numberOr } from "./format.ts";
+
+/* =========================================================
+   大当たり履歴（ボーナスごとの履歴 → 合計・ハマり・区間ごとの逆算）
+========================================================= */
+
+type Props = {
+  premise: Premise;
+  strategies: StrategyProfile[];
+  // 手入力欄の差枚（いまの総差枚として区間の逆算に使う）
+  diff: number;
+  onApply: (totals: HistorySegment) => void;
+};
+
+const btn = "px-3 h-9 rounded-lg border hover:bg-neutral-50 shrink-0";
+const KIND_LABELS = { big: "BIG", reg: "REG" } as const;
+const KIND_COLORS = { big: "#e11d48", reg: "#2563eb" } as const;
+
+const signed = (n: number) => `${n > 0 ? "+" : ""}${formatInt(n)}`;
+
+export default function BonusHistoryPanel({ premise, strategies, diff, onApply }: Props) {
+  const [text, setText] = useState(() => loadHistoryDraft().text);
+  const [tailDraft, setTailDraft] = useState(() => loadHistoryDraft().tailG);
+  // 「ここから後」に選んだ当たり（0 始まり、0 なら分けない）
+  const [from, setFrom] = useState(0);
+  const [diffAtDraft, setDiffAtDraft] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [log, setLog] = useState("");
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    saveHistoryDraft({ text, tailG: tailDraft });
+  }, [text, tailDraft]);
+
+  const parsed = useMemo(
+    () => parseBonusHistory(text, (premise.bigAvg + premise.regAvg) / 2),
+    [text, premise.bigAvg, premise.regAvg]
+  );
+  const { entries } = parsed;
+  const tailG = Math.max(0, numberOr(tailDraft, 0));
+  const summary = useMemo(() => summarizeHistory(entries, tailG), [entries, tailG]);
+  const splitAt = from > 0 && from < entries.length ? from : 0;
+  const parts = splitAt > 0 ? splitHistory(entries, tailG, splitAt) : null;
+  const diffAt = numberOr(diffAtDraft, NaN);
+
+  // 履歴の画像を読み取ってテキストに足す
+  async function handleImages(files: FileList | null) {
+    const list = Array.from(files ?? []);
+    if (list.length === 0) return;
+    setBusy(true);
+    setLog("");
+    try {
+      for (const file of list) {
+        const bitmap = await loadImageSource(file);
+        let canvas: HTMLCanvasElement;
+        try {
+          canvas = preprocessImage(bitmap, DEFAULT_PREPROCESS, null).canvas;
+        } finally {
+          bitmap.close();
+        }
+        const { data } = await recognizeImage(canvas);
+        const read = (data.text || "").trim();
+        setText(t => (t.trim() ? `${t.trimEnd()}\n${read}` : read));
+        setLog(s => s + `${file.name}: ${read.split("\n").length}行を読み取りました。\n`);
+      }
+    } catch (e) {
+      setLog(s => s + `❌ 読み取りエラー: ${e instanceof Error ? e.message : String(e)}\n`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const cell: React.CSSProperties = { padding: "4px 6px", textAlign: "right", whiteSpace: "nowrap" };
+  const row: React.CSSProperties = { display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 13 };
+  const maxBin = Math.max(1, ...summary.hamari.map(b => b.big + b.reg));
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+        データサイトの大当たり履歴（回数・時刻・種別・スタート・出玉）を貼り付けるか、履歴の画面を撮った画像を読み取ってください。1行に1回分です。
+      </p>
+      <textarea
+        aria-label="大当たり履歴"
+        placeholder={"回数 時刻 種別 スタート 出玉\n3 16:20 BB 36 248\n2 15:10 RB 890 96\n1 13:02 BB 210 252"}
+        className="rounded-xl border p-2 font-mono"
+        style={{ width: "100%", boxSizing: "border-box", minHeight: 120, fontSize: 12 }}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <div style={row}>
+        <button type="button" className={btn} disabled={busy} onClick={() => fileRef.current?.click()}>
+          🖼 履歴の画像を読み取る
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => { handleImages(e.target.files); e.target.value = ""; }}
+        />
+        {text && (
+          <button type="button" className={btn} onClick={() => { setText(""); setFrom(0); }}>
+            クリア
+          </button>
+        )}
+        {busy && <span className="text-xs">読み取り中…</span>}
+      </div>
+      {log && <div className="text-xs" style={{ whiteSpace: "pre-wrap" }}>{log}</div>}
+      <div style={row}>
+        <span>最後の当たりの後</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          className="h-9 px-2 rounded-lg border"
+          style={{ width: "7ch", textAlign: "right" }}
+          value={tailDraft}
+          placeholder="0"
+          onChange={(e) => setTailDraft(e.target.value)}
+        />
+        <span>G 回した</span>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="text-xs">
+          {entries.length}回分を読み取りました
+          {parsed.reversed && "（新しい順だったので古い順に並べ替え）"}
+          {entries.some(e => e.guessed) && "。種別の表示が無い行は出玉から BIG/REG を判断しています"}。
+        </div>
+      )}
+      {parsed.skipped.length > 0 && (
+        <div className="text-xs" style={{ color: "#92400e" }}>
+          ⚠️ 読めなかった行: {parsed.skipped.map(l => `「${l}」`).join(" ")}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <>
+          {/* 合計 */}
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+              <tbody>
+                <tr className="border-b">
+                  <td style={{ ...cell, textAlign: "left" }}>総回転数</td>
+                  <td className="font-mono tabular-nums" style={{ ...cell, fontWeight: 700 }}>{formatInt(summary.totals.G)}G</td>
+                </tr>
+                <tr className="border-b">
+                  <td style={{ ...cell, textAlign: "left" }}>BIG・REG</td>
+                  <td className="font-mono tabular-nums" style={cell}>
+                    {summary.totals.big}回（{formatProb(summary.totals.G / summary.totals.big)}）・
+                    {summary.totals.reg}回（{formatProb(summary.totals.G / summary.totals.reg)}）
+                  </td>
+                </tr>
+                <tr className="border-b">
+                  <td style={{ ...cell, textAlign: "left" }}>合算・平均スタート</td>
+                  <td className="font-mono tabular-nums" style={cell}>
+                    {formatProb(summary.totals.G / (summary.totals.big + summary.totals.reg))}・{formatInt(summary.average)}G
+                  </td>
+                </tr>
+                {summary.longest && (
+                  <tr>
+                    <td style={{ ...cell, textAlign: "left" }}>最大ハマり</td>
+                    <td className="font-mono tabular-nums" style={cell}>
+                      {formatInt(summary.longest.g)}G
+                      {summary.longest.index == null ? "（現在ハマり中）" : `（${summary.longest.index + 1}回目の当たりの前）`}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <button type="button" className={btn} onClick={() => onApply(summary.totals)}>
+              G・BIG・REG を計算機に反映
+            </button>
+          </div>
+
+          {/* ハマりの分布 */}
+          <div className="space-y-1">
+            <div className="text-sm font-semibold">ハマりの分布</div>
+            {summary.hamari.map(b => (
+              <div key={b.lo} style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 11 }}>
+                <span className="font-mono tabular-nums" style={{ width: "9ch", textAlign: "right", flexShrink: 0 }}>
+                  {b.hi == null ? `${b.lo}G〜` : `${b.lo}〜${b.hi}`}
+                </span>
+                <div style={{ display: "flex", flex: "1 1 auto", height: 10 }}>
+                  {(["big", "reg"] as const).map(k => (
+                    <div key={k} style={{ width: `${(b[k] / maxBin) * 100}%`, background: KIND_COLORS[k] }} />
+                  ))}
+                </div>
+                <span className="font-mono tabular-nums" style={{ width: "3ch", textAlign: "right", flexShrink: 0 }}>{b.big + b.reg}</span>
+              </div>
+            ))}
+            <div className="text-xs text-neutral-500">
+              <span style={{ color: KIND_COLORS.big }}>■</span> BIG{" "}<span style={{ color: KIND_COLORS.reg }}>■</span> REG
+              {tailG > 0 && `（最後の当たり後の ${formatInt(tailG)}G は途中なので含めていません）`}
+            </div>
+          </div>
+
+          {/* 履歴 */}
+          <div className="overflow-x-auto" style={{ maxHeight: 280 }}>
+            <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+              <thead>
+                <tr className="bg-neutral-50">
+                  <th style={cell}>#</th>
+                  <th style={cell}>時刻</th>
+                  <th style={{ ...cell, textAlign: "left" }}>種別</th>
+                  <th style={cell}>スタート</th>
+                  <th style={cell}>出玉</th>
+                  <th style={cell}>ここから後</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((e, i) => (
+                  <tr key={i} className="border-b" style={{ background: splitAt > 0 && i >= splitAt ? "#f5f3ff" : undefined }}>
+                    <td className="font-mono tabular-nums" style={cell}>{i + 1}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{e.time ?? "-"}</td>
+                    <td style={{ ...cell, textAlign: "left", color: KIND_COLORS[e.kind], fontWeight: 700 }}>
+                      {KIND_LABELS[e.kind]}{e.guessed && <span style={{ fontWeight: 400, opacity: 0.6 }}>（推定）</span>}
+                    </td>
+                    <td className="font-mono tabular-nums" style={cell}>{formatInt(e.start)}</td>
+                    <td className="font-mono tabular-nums" style={cell}>{e.payout != null ? formatInt(e.payout) : "-"}</td>
+                    <td style={cell}>
+                      <input
+                        type="radio"
+                        aria-label={`${i + 1}回目から後`}
+                        checked={splitAt === i}
+                        onChange={() => setFrom(i)}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* 区間ごと */}
+          {parts && (
+            <SplitView
+              parts={parts}
+              splitAt={splitAt}
+              premise={premise}
+              strategies={strategies}
+              diff={diff}
+              diffAt={diffAt}
+              diffAtDraft={diffAtDraft}
+              setDiffAtDraft={setDiffAtDraft}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// 選んだ当たりの前後で確率を比べ、差枚が分かれば後半だけ逆算する
+function SplitView({
+  parts,
+  splitAt,
+  premise,
+  strategies,
+  diff,
+  diffAt,
+  diffAtDraft,
+  setDiffAtDraft,
+}: {
+  parts: { before: HistorySegment; after: HistorySegment };
+  splitAt: number;
+  premise: Premise;
+  strategies: StrategyProfile[];
+  diff: number;
+  diffAt: number;
+  diffAtDraft: string;
+  setDiffAtDraft: (s: string) => void;
+}) {
+  const cell: React.CSSProperties = { padding: "4px 6px", textAlign: "right", whiteSpace: "nowrap" };
+  const known = isFinite(diffAt);
+  const afterInput = { ...parts.after, diff: diff - diffAt };
+
+  return (
+    <div className="space-y-2" style={{ borderTop: "1px solid #e5e5e5", paddingTop: 12 }}>
+      <div className="text-sm font-semibold">{splitAt + 1}回目の当たりの前後</div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+          <thead>
+            <tr className="bg-neutral-50">
+              <th style={{ ...cell, textAlign: "left" }}></th>
+              <th style={cell}>G</th>
+              <th style={cell}>BIG</th>
+              <th style={cell}>REG</th>
+              <th style={cell}>合算</th>
+            </tr>
+          </thead>
+          <tbody>
+            {([[`前（1〜${splitAt}回目）`, parts.before], [`後（${splitAt + 1}回目〜）`, parts.after]] as const).map(([label, s]) => (
+              <tr key={label} className="border-b">
+                <td style={{ ...cell, textAlign: "left" }}>{label}</td>
+                <td className="font-mono tabular-nums" style={cell}>{formatInt(s.G)}</td>
+                <td className="font-mono tabular-nums" style={cell}>{s.big}回 {formatProb(s.G / s.big)}</td>
+                <td className="font-mono tabular-nums" style={cell}>{s.reg}回 {formatProb(s.G / s.reg)}</td>
+                <td className="font-mono tabular-nums" style={cell}>{formatProb(s.G / (s.big + s.reg))}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 13 }}>
+        <span>{splitAt}回目の当たりが終わった時点の差枚</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          className="h-9 px-2 rounded-lg border"
+          style={{ width: "8ch", textAlign: "right" }}
+          value={diffAtDraft}
+          placeholder="例 -350"
+          onChange={(e) => setDiffAtDraft(e.target.value)}
+        />
+        <span>枚（いまの差枚 {signed(diff)}）</span>
+      </div>
+      {known ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+            <thead>
+              <tr className="bg-neutral-50">
+                <th style={{ ...cell, textAlign: "left" }}>打法</th>
+                <th style={cell}>後半のぶどう</th>
+                <th style={cell}>95%区間</th>
+              </tr>
+            </thead>
+            <tbody>
+              {strategies.map(s => {
+                const res = calcResultByCapture(afterInput, premise, s.capture);
+                return (
+                  <tr key={s.key} className="border-b">
+                    <td style={{ ...cell, textAlign: "left" }}>{s.label}</td>
+                    <td className="font-mono tabular-nums" style={{ ...cell, fontWeight: 700 }}>
+                      {res.grapesCountRaw < 0 ? "-" : formatProb(res.grapeProb)}
+                    </td>
+                    <td className="font-mono tabular-nums" style={cell}>{formatProbRange(res.ci[95].prob)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-xs text-neutral-500" style={{ margin: "4px 0 0" }}>
+            後半の {formatInt(afterInput.G)}G・差枚 {signed(afterInput.diff)}（いまの差枚 − その時点の差枚）で逆算しています。
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+          その時点の差枚（データサイトのグラフなど）を入れると、後半だけのぶどう確率を逆算します。
+        </p>
+      )}
+    </div>
+  );
+}
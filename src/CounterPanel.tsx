@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { calcResultByCapture, type Premise } from "./calc.ts";
+import type { StrategyProfile } from "./strategies.ts";
+import {
+  addCount,
+  counterRows,
+  loadCounterSession,
+  newCounterSession,
+  saveCounterSession,
+  undoCount,
+  COUNTER_KEYS,
+  COUNTER_LABELS,
+  type CounterSession,
+} from "./counter.ts";
+import { formatDateTime, formatInt, formatProb, numberOr } from "./format.ts";
+
+/* =========================================================
+   小役カウンター（実戦モード）
+========================================================= */
+
+type Props = {
+  premise: Premise;
+  // 逆算を並べる打法（結果カードと同じもの）
+  strategies: StrategyProfile[];
+  // 逆算に使う差枚（手入力欄の値）
+  diff: number;
+  // G・BIG・REG を手入力欄へ
+  onApply: (s: CounterSession) => void;
+  // 履歴へ保存（保存できたら true）
+  onSave: (s: CounterSession) => Promise<boolean>;
+};
+
+const btn = "px-3 h-9 rounded-lg border hover:bg-neutral-50 shrink-0";
+
+export default function CounterPanel({ premise, strategies, diff, onApply, onSave }: Props) {
+  const [session, setSession] = useState<CounterSession>(() => loadCounterSession());
+  const [gDraft, setGDraft] = useState<string | null>(null);
+  const { counts } = session;
+
+  useEffect(() => {
+    saveCounterSession(session);
+  }, [session]);
+
+  const rows = useMemo(() => counterRows(counts, premise), [counts, premise]);
+  // 逆算（カウンターの G・BIG・REG ＋ 手入力の差枚）
+  const backCalc = useMemo(() => {
+    const input = { G: counts.G, big: counts.big, reg: counts.reg, diff };
+    return strategies.map(s => ({ key: s.key, label: s.label, res: calcResultByCapture(input, premise, s.capture) }));
+  }, [counts, diff, premise, strategies]);
+
+  const tap = (key: Parameters<typeof addCount>[1], delta: number) => setSession(s => addCount(s, key, delta));
+
+  function commitG() {
+    if (gDraft == null) return;
+    const g = Math.max(0, Math.round(numberOr(gDraft, counts.G)));
+    setSession(s => addCount(s, "G", g - s.counts.G));
+    setGDraft(null);
+  }
+
+  async function save() {
+    if (!(await onSave(session))) return;
+    if (window.confirm("履歴に保存しました。カウンターを 0 に戻しますか？")) setSession(newCounterSession());
+  }
+
+  const bigBtn: React.CSSProperties = {
+    height: 64,
+    borderRadius: 12,
+    border: "1px solid #333",
+    display: "flex",
+    flexDirection: "column",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 2,
+    touchAction: "manipulation",
+    userSelect: "none",
+  };
+  const cell: React.CSSProperties = { padding: "4px 6px", textAlign: "right", whiteSpace: "nowrap" };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+        {formatDateTime(session.startedAt)} から計測中。ボタンを押すたびに +1、間違えたら「取り消し」で 1 つ戻せます。
+      </p>
+
+      {/* 回転数 */}
+      <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+        <span className="text-sm font-semibold">G</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          aria-label="カウンターの回転数"
+          className="h-10 px-2 rounded-lg border font-mono tabular-nums"
+          style={{ width: "9ch", textAlign: "right" }}
+          value={gDraft ?? String(counts.G)}
+          onFocus={() => setGDraft(String(counts.G))}
+          onChange={(e) => setGDraft(e.target.value)}
+          onBlur={commitG}
+          onKeyDown={(e) => { if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }}
+        />
+        {[1, 10, 100].map(d => (
+          <button key={d} type="button" className="px-3 h-10 rounded-lg border hover:bg-neutral-50" onClick={() => tap("G", d)}>
+            +{d}
+          </button>
+        ))}
+      </div>
+
+      {/* 小役・ボーナス */}
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 8 }}>
+        {COUNTER_KEYS.map(k => (
+          <button
+            key={k}
+            type="button"
+            style={{ ...bigBtn, background: k === "grape" ? "#f3e8ff" : k === "big" || k === "reg" ? "#fff1f2" : "#fff" }}
+            onClick={() => tap(k, 1)}
+          >
+            <span style={{ fontSize: 12 }}>{COUNTER_LABELS[k]}</span>
+            <span className="font-mono tabular-nums" style={{ fontSize: 20, fontWeight: 700, lineHeight: 1 }}>
+              {counts[k]}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <button type="button" className={btn} disabled={session.undo.length === 0} onClick={() => setSession(undoCount)}>
+          ↩ 取り消し
+        </button>
+        <button type="button" className={btn} onClick={() => onApply(session)}>
+          G・BIG・REG を計算機へ
+        </button>
+        <button type="button" className={btn} disabled={counts.G <= 0} onClick={save}>
+          履歴に保存
+        </button>
+        <button
+          type="button"
+          className={btn}
+          onClick={() => { if (window.confirm("カウンターを 0 に戻しますか？")) setSession(newCounterSession()); }}
+        >
+          カウンターをリセット
+        </button>
+      </div>
+
+      {/* 実測確率 */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+          <thead>
+            <tr className="bg-neutral-50">
+              <th style={{ ...cell, textAlign: "left" }}>役</th>
+              <th style={cell}>回数</th>
+              <th style={cell}>実測</th>
+              <th style={cell}>前提</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(r => (
+              <tr key={r.key} className="border-b last:border-0">
+                <td style={{ ...cell, textAlign: "left", fontWeight: r.key === "grape" ? 700 : undefined }}>{r.label}</td>
+                <td className="font-mono tabular-nums" style={cell}>{formatInt(r.count)}</td>
+                <td className="font-mono tabular-nums" style={{ ...cell, fontWeight: r.key === "grape" ? 700 : undefined }}>
+                  {formatProb(r.prob)}
+                </td>
+                <td className="font-mono tabular-nums" style={{ ...cell, opacity: 0.7 }}>
+                  {r.premiseProb != null ? formatProb(r.premiseProb) : "-"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* 実測ぶどう vs 逆算 */}
+      <div className="space-y-1">
+        <div className="text-sm font-semibold">ぶどう: 実測と逆算</div>
+        <div style={{ display: "grid", gridTemplateColumns: `repeat(${Math.min(5, backCalc.length + 1)}, 1fr)`, gap: 6, fontSize: 11, textAlign: "center" }}>
+          <div style={{ border: "2px solid #7c3aed", borderRadius: 8, padding: 4 }}>
+            <div>実測</div>
+            <div style={{ fontSize: 14, fontWeight: 700 }}>{formatProb(rows[0].prob)}</div>
+          </div>
+          {backCalc.map(({ key, label, res }) => (
+            <div key={key} style={{ border: "1px solid #e5e5e5", borderRadius: 8, padding: 4, minWidth: 0 }}>
+              <div style={{ whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>{label}</div>
+              <div style={{ fontSize: 14, fontWeight: 700 }}>{formatProb(res.grapeProb)}</div>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+          逆算はカウンターの G・BIG・REG と手入力欄の差枚（{diff > 0 ? "+" : ""}{formatInt(diff)}）で計算しています。
+        </p>
+      </div>
+    </div>
+  );
+}
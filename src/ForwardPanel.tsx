@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from "react";
+import { calcForward, type ForwardProbs, type Premise } from "./calc.ts";
+import type { SettingTable } from "./presets.ts";
+import type { StrategyProfile } from "./strategies.ts";
+import { formatInt, formatPercent, numberOr } from "./format.ts";
+
+/* =========================================================
+   順算（設定・確率 → 期待差枚・機械割）
+========================================================= */
+
+type Props = {
+  premise: Premise;
+  settings?: SettingTable;
+  strategies: StrategyProfile[];
+  // 手入力欄の G・差枚（初期値と比較用）
+  G: number;
+  diff: number;
+};
+
+type Source = "setting" | "custom";
+
+const signed = (n: number) => `${n > 0 ? "+" : ""}${formatInt(n)}`;
+
+function settingProbs(table: SettingTable, i: number): ForwardProbs {
+  return { big: table.big[i], reg: table.reg[i], grape: table.grape[i], bigCherry: table.bigCherry?.[i], regCherry: table.regCherry?.[i] };
+}
+
+export default function ForwardPanel({ premise, settings, strategies, G, diff }: Props) {
+  const [source, setSource] = useState<Source>(settings ? "setting" : "custom");
+  const [setting, setSetting] = useState(5);
+  const [custom, setCustom] = useState({ big: "", reg: "", grape: "" });
+  // 機械割はスペック表に合わせて完全攻略を既定に
+  const [strategyKey, setStrategyKey] = useState(() => (strategies.find(s => s.key === "full") ?? strategies[0])?.key ?? "");
+  const [gDraft, setGDraft] = useState("");
+
+  const g = numberOr(gDraft, G > 0 ? G : 8000);
+  const strategy = strategies.find(s => s.key === strategyKey) ?? strategies[0];
+  const useSetting = source === "setting" && settings != null;
+
+  const probs: ForwardProbs | null = useMemo(() => {
+    if (useSetting) return settingProbs(settings, setting);
+    const v = { big: numberOr(custom.big, NaN), reg: numberOr(custom.reg, NaN), grape: numberOr(custom.grape, NaN) };
+    return v.big > 0 && v.reg > 0 && v.grape > 0 ? v : null;
+  }, [useSetting, settings, setting, custom]);
+
+  const result = probs && strategy && g > 0 ? calcForward(g, probs, premise, strategy.capture) : null;
+  // 設定6ならこの G でどのくらいの差枚になるか
+  const six = settings && strategy && g > 0 ? calcForward(g, settingProbs(settings, 5), premise, strategy.capture) : null;
+
+  const cell: React.CSSProperties = { padding: "4px 6px", textAlign: "right", whiteSpace: "nowrap" };
+  const row: React.CSSProperties = { display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 13 };
+
+  return (
+    <div className="space-y-3">
+      <div style={row}>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <input type="radio" checked={useSetting} disabled={!settings} onChange={() => setSource("setting")} />
+          設定から
+        </label>
+        <select
+          className="h-9 px-2 rounded-lg border"
+          value={setting}
+          disabled={!useSetting}
+          onChange={(e) => setSetting(Number(e.target.value))}
+        >
+          {[0, 1, 2, 3, 4, 5].map(i => <option key={i} value={i}>設定{i + 1}</option>)}
+        </select>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <input type="radio" checked={!useSetting} onChange={() => setSource("custom")} />
+          確率を指定
+        </label>
+      </div>
+      {!settings && (
+        <p className="text-xs text-neutral-500" style={{ margin: 0 }}>このプリセットには設定別の確率が無いため、確率を指定してください。</p>
+      )}
+      {!useSetting && (
+        <div style={row}>
+          {(["big", "reg", "grape"] as const).map(k => (
+            <label key={k} style={{ display: "flex", alignItems: "center", gap: 4 }}>
+              {k === "big" ? "BIG" : k === "reg" ? "REG" : "ぶどう"} 1/
+              <input
+                type="text"
+                inputMode="decimal"
+                className="h-9 px-2 rounded-lg border"
+                style={{ width: "7ch", textAlign: "right" }}
+                value={custom[k]}
+                placeholder={settings ? String(settings[k][5]) : ""}
+                onChange={(e) => setCustom(c => ({ ...c, [k]: e.target.value }))}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+      <div style={row}>
+        <span>打法</span>
+        <select className="h-9 px-2 rounded-lg border" value={strategy?.key ?? ""} onChange={(e) => setStrategyKey(e.target.value)}>
+          {strategies.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+        </select>
+        <span>回転数</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          className="h-9 px-2 rounded-lg border"
+          style={{ width: "8ch", textAlign: "right" }}
+          value={gDraft}
+          placeholder={String(g)}
+          onChange={(e) => setGDraft(e.target.value)}
+        />
+        <span>G</span>
+      </div>
+
+      {result ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+            <tbody>
+              <tr className="border-b">
+                <td style={{ ...cell, textAlign: "left" }}>期待差枚</td>
+                <td className="font-mono tabular-nums" style={{ ...cell, fontWeight: 700, fontSize: 16 }}>{signed(result.diff)}</td>
+              </tr>
+              <tr className="border-b">
+                <td style={{ ...cell, textAlign: "left" }}>標準偏差</td>
+                <td className="font-mono tabular-nums" style={cell}>±{formatInt(result.diffSd)}</td>
+              </tr>
+              <tr className="border-b">
+                <td style={{ ...cell, textAlign: "left" }}>機械割</td>
+                <td className="font-mono tabular-nums" style={{ ...cell, fontWeight: 700 }}>{formatPercent(result.payout, 2)}</td>
+              </tr>
+              {([90, 95] as const).map(level => (
+                <tr key={level} className="border-b">
+                  <td style={{ ...cell, textAlign: "left" }}>差枚の{level}%範囲</td>
+                  <td className="font-mono tabular-nums" style={cell}>
+                    {signed(result.ci[level].lo)}〜{signed(result.ci[level].hi)}
+                  </td>
+                </tr>
+              ))}
+              {six && (
+                <tr>
+                  <td style={{ ...cell, textAlign: "left" }}>設定6ならこの回転数で（95%）</td>
+                  <td className="font-mono tabular-nums" style={cell}>
+                    {signed(six.ci[95].lo)}〜{signed(six.ci[95].hi)}
+                    {G > 0 && g === G && (
+                      <div style={{ opacity: 0.7 }}>
+                        今の差枚 {signed(diff)} は{diff < six.ci[95].lo ? "下振れ側の範囲外" : diff > six.ci[95].hi ? "上振れ側の範囲外" : "範囲内"}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-xs text-neutral-500">確率と回転数を入力すると期待差枚と機械割を表示します。</p>
+      )}
+      <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+        逆算と同じ前提（リプレイ・小役の払い出し・ボーナス平均枚数・チェリー重複ボーナスのチェリー）で計算しています。機械割はリプレイを 3 枚投入・3 枚払い出しとして数えた値です。
+      </p>
+    </div>
+  );
+}
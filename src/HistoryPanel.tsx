@@ -0,0 +1,332 @@
+import React, { useMemo, useRef, useState } from "react";
+import { filterHistory, type HistoryFilter, type HistoryRow } from "./history.ts";
+import type { ExportFormat } from "./historyIO.ts";
+import { formatDateTime, formatInt, formatProb } from "./format.ts";
+
+/* =========================================================
+   履歴パネル（検索・復元・編集・削除・入出力）
+========================================================= */
+
+export type HistoryEditDraft = {
+  // 打った日（「2025-01-31」、空欄なら保存日時の日）
+  playDate: string;
+  hall: string;
+  machineNo: string;
+  memo: string;
+  G: string;
+  big: string;
+  reg: string;
+  diff: string;
+};
+
+type Props = {
+  rows: HistoryRow[];
+  importLog: string;
+  onRestore: (row: HistoryRow) => void;
+  // 入力値が正しくなければ理由を返す（編集は閉じない）
+  onEdit: (row: HistoryRow, draft: HistoryEditDraft) => string | null;
+  onDelete: (row: HistoryRow) => void;
+  onReset: () => void;
+  onExport: (format: ExportFormat, rows: HistoryRow[]) => void;
+  onImport: (files: FileList | null) => Promise<void>;
+};
+
+const EMPTY_DRAFT: HistoryEditDraft = { playDate: "", hall: "", machineNo: "", memo: "", G: "", big: "", reg: "", diff: "" };
+
+const btn = "px-3 h-9 rounded-lg border hover:bg-neutral-50 shrink-0";
+const numCell = "text-right p-2 font-mono whitespace-nowrap tabular-nums";
+
+function draftOf(h: HistoryRow): HistoryEditDraft {
+  return {
+    playDate: h.playDate ?? "",
+    hall: h.hall ?? "",
+    machineNo: h.machineNo ?? "",
+    memo: h.memo ?? "",
+    G: h.input ? String(h.input.G) : "",
+    big: h.input ? String(h.input.big) : "",
+    reg: h.input ? String(h.input.reg) : "",
+    diff: h.input ? String(h.input.diff) : "",
+  };
+}
+
+export default function HistoryPanel({
+  rows,
+  importLog,
+  onRestore,
+  onEdit,
+  onDelete,
+  onReset,
+  onExport,
+  onImport,
+}: Props) {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editError, setEditError] = useState("");
+  const [draft, setDraft] = useState<HistoryEditDraft>(EMPTY_DRAFT);
+
+  const models = useMemo(() => Array.from(new Set(rows.map(r => r.modelKey))), [rows]);
+  const shown = useMemo(() => filterHistory(rows, filter), [rows, filter]);
+  const filtered = shown.length !== rows.length;
+
+  function startEdit(h: HistoryRow) {
+    setEditingId(h.id);
+    setEditError("");
+    setDraft(draftOf(h));
+  }
+  function commitEdit(h: HistoryRow) {
+    const error = onEdit(h, draft);
+    if (error) setEditError(error);
+    else setEditingId(null);
+  }
+
+  const draftInput = (key: keyof HistoryEditDraft, width: string, numeric = true) => (
+    <input
+      type="text"
+      inputMode={numeric ? "numeric" : undefined}
+      value={draft[key]}
+      onChange={(e) => setDraft(d => ({ ...d, [key]: e.target.value }))}
+      onClick={(e) => e.stopPropagation()}
+      className="h-8 px-2 rounded border"
+      style={{ width, textAlign: numeric ? "right" : "left" }}
+    />
+  );
+
+  return (
+    <section className="bg-white rounded-2xl shadow p-4 md:p-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">履歴（{filtered ? `${shown.length}/` : ""}{rows.length}件）</h2>
+        <button
+          type="button"
+          className={btn}
+          onClick={() => {
+            if (window.confirm("履歴をすべて削除しますか？")) onReset();
+          }}
+        >
+          履歴をリセット
+        </button>
+      </div>
+
+      {/* 検索・絞り込み */}
+      <div className="flex items-center gap-2 flex-wrap" style={{ fontSize: 12 }}>
+        <select
+          aria-label="機種で絞り込み"
+          className="h-9 px-2 rounded-lg border"
+          value={filter.modelKey ?? ""}
+          onChange={(e) => setFilter(f => ({ ...f, modelKey: e.target.value || undefined }))}
+        >
+          <option value="">すべての機種</option>
+          {models.map(k => <option key={k} value={k}>{k}</option>)}
+        </select>
+        <input
+          type="date"
+          aria-label="開始日"
+          className="h-9 px-2 rounded-lg border"
+          value={filter.from ?? ""}
+          onChange={(e) => setFilter(f => ({ ...f, from: e.target.value || undefined }))}
+        />
+        <span>〜</span>
+        <input
+          type="date"
+          aria-label="終了日"
+          className="h-9 px-2 rounded-lg border"
+          value={filter.to ?? ""}
+          onChange={(e) => setFilter(f => ({ ...f, to: e.target.value || undefined }))}
+        />
+        <input
+          type="search"
+          placeholder="検索（ホール・台番・メモ）"
+          className="h-9 px-2 rounded-lg border"
+          value={filter.text ?? ""}
+          onChange={(e) => setFilter(f => ({ ...f, text: e.target.value }))}
+        />
+        {filtered && (
+          <button type="button" className={btn} onClick={() => setFilter({})}>
+            条件クリア
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 flex-nowrap whitespace-nowrap overflow-x-auto">
+        <button type="button" className={btn} onClick={() => onExport("xlsx", shown)}>
+          Excel出力
+        </button>
+        <button type="button" className={btn} onClick={() => onExport("csv", shown)}>
+          CSV出力
+        </button>
+        <button type="button" className={btn} onClick={() => importInputRef.current?.click()}>
+          取り込み（xlsx/csv）
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".xlsx,.xls,.csv,text/csv"
+          className="hidden"
+          onChange={async (e) => {
+            await onImport(e.target.files);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {importLog && (
+        <pre className="bg-neutral-100 rounded-xl p-3 text-xs overflow-auto max-h-48 whitespace-pre-wrap">
+          {importLog}
+        </pre>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full border-collapse">
+          <thead>
+            <tr className="bg-neutral-50 text-sm">
+              <th className="text-left  p-2">日時</th>
+              <th className="text-left  p-2">ホール・台番</th>
+              <th className="text-left  p-2">機種名</th>
+              <th className="text-right p-2">G / BIG / REG / 差枚</th>
+              <th className="text-right p-2">適当打</th>
+              <th className="text-right p-2">C90%</th>
+              <th className="text-right p-2">C100%</th>
+              <th className="text-right p-2">完全攻略</th>
+              <th className="text-left  p-2">メモ</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((h) => {
+              const editing = editingId === h.id;
+              return (
+                <tr
+                  key={h.id}
+                  className="border-b last:border-0"
+                  style={{ cursor: editing ? undefined : "pointer" }}
+                  title={editing ? undefined : "タップで計算機に復元"}
+                  onClick={() => { if (!editing) onRestore(h); }}
+                >
+                  <td className="p-2 whitespace-nowrap text-xs">
+                    {formatDateTime(h.createdAt)}
+                    {editing ? (
+                      <div>
+                        <input
+                          type="date"
+                          aria-label="打った日"
+                          title="打った日（集計の日付・曜日に使います）"
+                          value={draft.playDate}
+                          onChange={(e) => setDraft(d => ({ ...d, playDate: e.target.value }))}
+                          onClick={(e) => e.stopPropagation()}
+                          className="h-8 px-1 rounded border"
+                        />
+                      </div>
+                    ) : h.playDate && (
+                      <div className="text-neutral-500">打った日 {h.playDate.replace(/-/g, "/")}</div>
+                    )}
+                  </td>
+                  <td className="p-2 text-sm">
+                    {editing ? (
+                      <div className="flex gap-1">
+                        {draftInput("hall", "10ch", false)}
+                        {draftInput("machineNo", "5ch", false)}
+                      </div>
+                    ) : (
+                      [h.hall, h.machineNo && `${h.machineNo}番`].filter(Boolean).join(" ")
+                    )}
+                  </td>
+                  <td className="p-2">
+                    {h.modelKey}
+                    {h.counts && h.counts.G > 0 && (
+                      <div className="text-xs text-neutral-500 whitespace-nowrap">
+                        実戦ぶどう {formatProb(h.counts.G / h.counts.grape)}（{h.counts.grape}回）
+                      </div>
+                    )}
+                  </td>
+                  <td className={numCell}>
+                    {editing ? (
+                      <div className="flex gap-1 justify-end">
+                        {draftInput("G", "7ch")}
+                        {draftInput("big", "5ch")}
+                        {draftInput("reg", "5ch")}
+                        {draftInput("diff", "7ch")}
+                      </div>
+                    ) : h.input ? (
+                      `${formatInt(h.input.G)} / ${h.input.big} / ${h.input.reg} / ${h.input.diff > 0 ? "+" : ""}${formatInt(h.input.diff)}`
+                    ) : "-"}
+                  </td>
+                  <td className={numCell}>
+                    {h.probRandom}
+                    {h.ciRandom && <div className="text-xs text-neutral-500">{h.ciRandom}</div>}
+                  </td>
+                  <td className={numCell}>
+                    {h.probC90}
+                    {h.ciC90 && <div className="text-xs text-neutral-500">{h.ciC90}</div>}
+                  </td>
+                  <td className={numCell}>
+                    {h.probC100}
+                    {h.ciC100 && <div className="text-xs text-neutral-500">{h.ciC100}</div>}
+                  </td>
+                  <td className={numCell}>
+                    {h.probFull}
+                    {h.ciFull && <div className="text-xs text-neutral-500">{h.ciFull}</div>}
+                  </td>
+                  <td className="p-2 text-sm">
+                    {editing ? draftInput("memo", "14ch", false) : (h.memo ?? "")}
+                  </td>
+                  <td className="p-2 whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                    {editing ? (
+                      <>
+                        <RowButtons
+                          items={[
+                            { label: "保存", onClick: () => commitEdit(h) },
+                            { label: "取消", onClick: () => setEditingId(null) },
+                          ]}
+                        />
+                        {editError && (
+                          <div role="alert" className="text-xs whitespace-normal" style={{ color: "#9b1c1c", maxWidth: "20ch" }}>
+                            {editError}
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <RowButtons
+                        items={[
+                          { label: "編集", onClick: () => startEdit(h) },
+                          {
+                            label: "削除",
+                            onClick: () => {
+                              if (window.confirm(`${h.modelKey}（${formatDateTime(h.createdAt)}）を削除しますか？`)) {
+                                onDelete(h);
+                              }
+                            },
+                          },
+                        ]}
+                      />
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {shown.length === 0 && (
+              <tr>
+                <td className="p-3 text-sm text-neutral-500" colSpan={10}>
+                  {rows.length === 0
+                    ? "まだ履歴がありません。「履歴に追加」を押すとここに溜まります。"
+                    : "条件に合う履歴がありません。"}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+function RowButtons({ items }: { items: { label: string; onClick: () => void }[] }) {
+  const style: React.CSSProperties = { height: 30, padding: "0 8px", fontSize: 12, marginLeft: 4 };
+  return (
+    <>
+      {items.map(it => (
+        <button key={it.label} type="button" className="rounded border" style={style} onClick={it.onClick}>
+          {it.label}
+        </button>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,252 @@
+import React, { useMemo, useState } from "react";
+import {
+  calcIslandRow,
+  islandTotals,
+  newIslandRow,
+  nextNumber,
+  parsePastedCells,
+  HIGH_SETTING_THRESHOLD,
+  ISLAND_COLUMNS,
+  ISLAND_COLUMN_LABELS,
+  type IslandColumn,
+  type IslandRow,
+  type PremiseResolver,
+} from "./island.ts";
+import type { StrategyProfile } from "./strategies.ts";
+import { formatInt, formatPercent, formatProb } from "./format.ts";
+
+/* =========================================================
+   島（複数台）まとめて逆算
+========================================================= */
+
+type Props = {
+  // 表の行（保存は呼び出し側。ページの取り込みからも追加される）
+  rows: IslandRow[];
+  setRows: React.Dispatch<React.SetStateAction<IslandRow[]>>;
+  modelNames: string[];
+  defaultModel: string;
+  strategies: StrategyProfile[];
+  resolve: PremiseResolver;
+  // 1台を計算機へ
+  onOpen: (row: IslandRow) => void;
+};
+
+// 並べ替え: 入力順・台番・合算・打法ごとのぶどう
+type SortKey = "input" | "number" | "combined" | `grape:${string}`;
+
+const btn = "px-3 h-9 rounded-lg border hover:bg-neutral-50 shrink-0";
+
+export default function IslandPanel({ rows, setRows, modelNames, defaultModel, strategies, resolve, onOpen }: Props) {
+  const [sort, setSort] = useState<SortKey>("input");
+  const [settingKey, setSettingKey] = useState(() => strategies[0]?.key ?? "");
+  const settingStrategy = strategies.find(s => s.key === settingKey) ?? strategies[0];
+
+  const calcs = useMemo(
+    () => rows.map(r => calcIslandRow(r, strategies, resolve, settingStrategy?.key ?? "")),
+    [rows, strategies, resolve, settingStrategy],
+  );
+  const totals = useMemo(() => islandTotals(calcs, strategies), [calcs, strategies]);
+
+  const sorted = useMemo(() => {
+    if (sort === "input") return calcs;
+    const list = [...calcs];
+    if (sort === "number") {
+      return list.sort((a, b) => a.row.number.localeCompare(b.row.number, "ja", { numeric: true }));
+    }
+    // 確率は分母が小さいほど良いので昇順（未入力は末尾）
+    const value = (c: (typeof calcs)[number]) =>
+      sort === "combined" ? c.combined : c.results[sort.slice("grape:".length)]?.grapeProb ?? Infinity;
+    return list.sort((a, b) => value(a) - value(b));
+  }, [calcs, sort]);
+
+  function update(id: string, patch: Partial<IslandRow>) {
+    setRows(rs => rs.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  }
+  function addRow() {
+    setRows(rs => [...rs, newIslandRow(rs[rs.length - 1]?.modelKey ?? defaultModel, nextNumber(rs))]);
+  }
+
+  // 表計算ソフトからの貼り付け：貼ったセルから右下へ埋め、足りない行は追加
+  function handlePaste(e: React.ClipboardEvent<HTMLElement>, id: string, col: IslandColumn) {
+    const cells = parsePastedCells(e.clipboardData.getData("text"));
+    if (!cells) return;
+    e.preventDefault();
+    setRows(rs => {
+      const next = [...rs];
+      const start = next.findIndex(r => r.id === id);
+      const c0 = ISLAND_COLUMNS.indexOf(col);
+      cells.forEach((line, i) => {
+        const at = start + i;
+        if (!next[at]) next[at] = newIslandRow(next[at - 1]?.modelKey ?? defaultModel, nextNumber(next));
+        const row = { ...next[at] };
+        line.forEach((v, j) => {
+          const key = ISLAND_COLUMNS[c0 + j];
+          if (!key) return;
+          // 機種は登録済みの名前だけ受け付ける
+          if (key === "modelKey" && !modelNames.includes(v)) return;
+          row[key] = key === "number" || key === "modelKey" ? v : v.replace(/[,枚G]/g, "");
+        });
+        next[at] = row;
+      });
+      return next;
+    });
+  }
+
+  const cell: React.CSSProperties = { padding: "2px 4px", textAlign: "right", whiteSpace: "nowrap" };
+  const numInput = (r: IslandRow, key: IslandColumn, width: string) => (
+    <input
+      type="text"
+      inputMode={key === "number" ? "text" : "numeric"}
+      aria-label={ISLAND_COLUMN_LABELS[key]}
+      className="h-8 px-1 rounded border"
+      style={{ width, textAlign: key === "number" ? "left" : "right" }}
+      value={r[key]}
+      onChange={(e) => update(r.id, { [key]: e.target.value })}
+      onPaste={(e) => handlePaste(e, r.id, key)}
+    />
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+        1行1台。表計算ソフトからコピーした「台番・機種・G・BIG・REG・差枚」をセルに貼り付けるとまとめて入ります。
+      </p>
+      <div className="flex items-center gap-2 flex-wrap" style={{ fontSize: 12 }}>
+        <span>並べ替え</span>
+        <select className="h-9 px-2 rounded-lg border" value={sort} onChange={(e) => setSort(e.target.value as SortKey)}>
+          <option value="input">入力順</option>
+          <option value="number">台番</option>
+          <option value="combined">合算確率</option>
+          {strategies.map(s => <option key={s.key} value={`grape:${s.key}`}>ぶどう（{s.label}）</option>)}
+        </select>
+        <span>設定判別の打法</span>
+        <select className="h-9 px-2 rounded-lg border" value={settingStrategy?.key ?? ""} onChange={(e) => setSettingKey(e.target.value)}>
+          {strategies.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+          <thead>
+            <tr className="bg-neutral-50">
+              {ISLAND_COLUMNS.map(k => (
+                <th key={k} style={{ ...cell, textAlign: k === "number" || k === "modelKey" ? "left" : "right" }}>
+                  {ISLAND_COLUMN_LABELS[k]}
+                </th>
+              ))}
+              <th style={cell}>合算</th>
+              {strategies.map(s => <th key={s.key} style={cell}>{s.label}</th>)}
+              <th style={cell}>設定5以上</th>
+              <th style={cell}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(c => {
+              const r = c.row;
+              const high = c.highProb != null && c.highProb >= HIGH_SETTING_THRESHOLD;
+              return (
+                <tr key={r.id} className="border-b" style={{ background: high ? "#fff1f2" : undefined }}>
+                  <td style={{ ...cell, textAlign: "left" }}>{numInput(r, "number", "6ch")}</td>
+                  <td style={{ ...cell, textAlign: "left" }}>
+                    <select
+                      aria-label="機種"
+                      className="h-8 px-1 rounded border"
+                      style={{ maxWidth: 140 }}
+                      value={r.modelKey}
+                      onChange={(e) => update(r.id, { modelKey: e.target.value })}
+                      onPaste={(e) => handlePaste(e, r.id, "modelKey")}
+                    >
+                      {!modelNames.includes(r.modelKey) && <option value={r.modelKey}>{r.modelKey}（未登録）</option>}
+                      {modelNames.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                  </td>
+                  <td style={cell}>{numInput(r, "G", "7ch")}</td>
+                  <td style={cell}>{numInput(r, "big", "5ch")}</td>
+                  <td style={cell}>{numInput(r, "reg", "5ch")}</td>
+                  <td style={cell}>{numInput(r, "diff", "7ch")}</td>
+                  <td className="font-mono tabular-nums" style={cell}>{formatProb(c.combined)}</td>
+                  {strategies.map(s => (
+                    <td key={s.key} className="font-mono tabular-nums" style={cell}>
+                      {c.results[s.key] ? formatProb(c.results[s.key].grapeProb) : "-"}
+                    </td>
+                  ))}
+                  <td className="font-mono tabular-nums" style={{ ...cell, fontWeight: high ? 700 : undefined, color: high ? "#9b1c1c" : undefined }}>
+                    {c.highProb != null ? formatPercent(c.highProb, 0) : "-"}
+                    {c.expected != null && <div style={{ opacity: 0.6 }}>期待 {c.expected.toFixed(1)}</div>}
+                  </td>
+                  <td style={cell}>
+                    <button
+                      type="button"
+                      className="rounded border"
+                      style={{ height: 30, padding: "0 8px", fontSize: 12 }}
+                      disabled={!c.input}
+                      onClick={() => onOpen(r)}
+                    >
+                      開く
+                    </button>
+                    <button
+                      type="button"
+                      className="rounded border"
+                      style={{ height: 30, padding: "0 8px", fontSize: 12, marginLeft: 4 }}
+                      onClick={() => setRows(rs => rs.filter(x => x.id !== r.id))}
+                    >
+                      削除
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+            {rows.length === 0 && (
+              <tr>
+                <td className="p-3 text-sm text-neutral-500" colSpan={ISLAND_COLUMNS.length + strategies.length + 3}>
+                  「台を追加」で行を増やしてください。
+                </td>
+              </tr>
+            )}
+          </tbody>
+          {totals.machines > 0 && (
+            <tfoot>
+              <tr className="bg-neutral-50" style={{ fontWeight: 700 }}>
+                <td style={{ ...cell, textAlign: "left" }} colSpan={2}>島合計（{totals.machines}台）</td>
+                <td className="font-mono tabular-nums" style={cell}>{formatInt(totals.G)}</td>
+                <td className="font-mono tabular-nums" style={cell}>{formatInt(totals.big)}</td>
+                <td className="font-mono tabular-nums" style={cell}>{formatInt(totals.reg)}</td>
+                <td className="font-mono tabular-nums" style={cell}>{totals.diff > 0 ? "+" : ""}{formatInt(totals.diff)}</td>
+                <td className="font-mono tabular-nums" style={cell}>{formatProb(totals.combined)}</td>
+                {strategies.map(s => (
+                  <td key={s.key} className="font-mono tabular-nums" style={cell}>{formatProb(totals.grapeProb[s.key])}</td>
+                ))}
+                <td style={cell} colSpan={2}></td>
+              </tr>
+              <tr className="bg-neutral-50">
+                <td style={{ ...cell, textAlign: "left" }} colSpan={2}>1台平均（BIG・REGは確率）</td>
+                <td className="font-mono tabular-nums" style={cell}>{formatInt(totals.avgG)}</td>
+                <td className="font-mono tabular-nums" style={cell}>{formatProb(totals.bigProb)}</td>
+                <td className="font-mono tabular-nums" style={cell}>{formatProb(totals.regProb)}</td>
+                <td className="font-mono tabular-nums" style={cell}>{totals.avgDiff > 0 ? "+" : ""}{formatInt(totals.avgDiff)}</td>
+                <td style={cell} colSpan={strategies.length + 3}></td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <button type="button" className={btn} onClick={addRow}>
+          ＋ 台を追加
+        </button>
+        <button
+          type="button"
+          className={btn}
+          disabled={rows.length === 0}
+          onClick={() => { if (window.confirm("島の表をすべて消しますか？")) setRows([]); }}
+        >
+          表をクリア
+        </button>
+      </div>
+      <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+        設定5以上の見込みが{formatPercent(HIGH_SETTING_THRESHOLD, 0)}以上の台を色付けしています（BIG・REG・逆算ぶどうによる推定）。
+      </p>
+    </div>
+  );
+}
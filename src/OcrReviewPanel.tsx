@@ -0,0 +1,164 @@
+import React, { useState } from "react";
+import {
+  FIELD_LABELS,
+  SPLIT_FIELDS,
+  type FieldCandidate,
+  type FieldKey,
+  type MergeResult,
+  type ParsedFields,
+} from "./ocrParse.ts";
+
+/* =========================================================
+   OCR 結果の確認（項目ごとに候補を選ぶ・直す → まとめて反映）
+========================================================= */
+
+type Choice = { use: boolean; value: string };
+
+type Props = {
+  candidates: FieldCandidate[];
+  merge: MergeResult;
+  // 今の入力（比較表示用）
+  current: Partial<Record<FieldKey, string | number>>;
+  modelNames: string[];
+  onApply: (fields: ParsedFields) => void;
+  onReject: () => void;
+};
+
+const FIELDS: FieldKey[] = ["modelKey", "G", "big", "reg", "diff", ...SPLIT_FIELDS];
+
+function initialChoices(candidates: FieldCandidate[], merge: MergeResult) {
+  const out = {} as Record<FieldKey, Choice>;
+  for (const f of FIELDS) {
+    const v = merge.merged[f];
+    // 食い違いのある項目は既定値なし（必ず選んでもらう）
+    out[f] = v != null ? { use: true, value: String(v) } : { use: false, value: "" };
+    if (v == null && !merge.conflicts.some(c => c.field === f)) {
+      const best = candidates.find(c => c.field === f);
+      if (best) out[f] = { use: false, value: String(best.value) };
+    }
+  }
+  return out;
+}
+
+// 入力値の検証。問題なければ null
+function validate(field: FieldKey, value: string, modelNames: string[]) {
+  const v = value.trim();
+  if (field === "modelKey") return modelNames.includes(v) ? null : "プリセットに無い機種です";
+  if (field === "diff") return /^[+-]?\d{1,6}$/.test(v) ? null : "整数（±付き可）で入力してください";
+  return /^\d{1,6}$/.test(v) ? null : "0以上の整数で入力してください";
+}
+
+export default function OcrReviewPanel({ candidates, merge, current, modelNames, onApply, onReject }: Props) {
+  const [choices, setChoices] = useState(() => initialChoices(candidates, merge));
+  const conflicted = new Set(merge.conflicts.map(c => c.field));
+  // 内訳は画面に出ていたときだけ並べる
+  const shown = FIELDS.filter(f => !(SPLIT_FIELDS as FieldKey[]).includes(f) || candidates.some(c => c.field === f));
+
+  const set = (f: FieldKey, patch: Partial<Choice>) =>
+    setChoices(cs => ({ ...cs, [f]: { ...cs[f], ...patch } }));
+
+  const errors = Object.fromEntries(
+    FIELDS.map(f => [f, choices[f].use ? validate(f, choices[f].value, modelNames) : null])
+  ) as Record<FieldKey, string | null>;
+  const canApply = FIELDS.some(f => choices[f].use) && FIELDS.every(f => !errors[f]);
+
+  function apply() {
+    const out: ParsedFields = {};
+    for (const f of FIELDS) {
+      const c = choices[f];
+      if (!c.use) continue;
+      if (f === "modelKey") out.modelKey = c.value.trim();
+      else out[f] = parseInt(c.value.trim(), 10);
+    }
+    onApply(out);
+  }
+
+  const cell: React.CSSProperties = { padding: "4px 6px", verticalAlign: "top" };
+
+  return (
+    <div className="space-y-3" style={{ border: "2px solid #333", borderRadius: 12, padding: 12 }}>
+      <div className="text-sm font-semibold">読み取り結果の確認</div>
+      <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+        項目ごとに候補を選ぶか値を直してから「まとめて反映」を押してください。チェックを外した項目は今の入力のままです。
+      </p>
+
+      {shown.map(f => {
+        const list = candidates.filter(c => c.field === f);
+        const choice = choices[f];
+        return (
+          <div key={f} style={{ borderTop: "1px solid #e5e5e5", paddingTop: 8 }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 13 }}>
+              <label style={{ display: "flex", alignItems: "center", gap: 4, fontWeight: 700, minWidth: 90 }}>
+                <input type="checkbox" checked={choice.use} onChange={(e) => set(f, { use: e.target.checked })} />
+                {FIELD_LABELS[f]}
+              </label>
+              {f === "modelKey" ? (
+                <select
+                  className="h-9 px-2 rounded-lg border"
+                  value={choice.value}
+                  onChange={(e) => set(f, { value: e.target.value, use: true })}
+                >
+                  <option value="">（選択）</option>
+                  {modelNames.map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  className="h-9 px-2 rounded-lg border"
+                  style={{ width: "9ch", textAlign: "right" }}
+                  value={choice.value}
+                  onChange={(e) => set(f, { value: e.target.value, use: true })}
+                />
+              )}
+              <span className="text-xs text-neutral-500">今: {String(current[f] ?? "") || "-"}</span>
+              {conflicted.has(f) && <span className="text-xs" style={{ color: "#7a5300" }}>⚠️ 画像ごとに食い違い</span>}
+              {errors[f] && <span className="text-xs" style={{ color: "#9b1c1c" }}>{errors[f]}</span>}
+            </div>
+
+            {list.length > 0 ? (
+              <table className="border-collapse" style={{ fontSize: 11, marginTop: 4, width: "100%" }}>
+                <tbody>
+                  {list.map((c, i) => (
+                    <tr
+                      key={i}
+                      style={{ cursor: "pointer", background: choice.value === String(c.value) ? "#f0f0f0" : undefined }}
+                      onClick={() => set(f, { value: String(c.value), use: true })}
+                    >
+                      <td style={{ ...cell, width: 20 }}>
+                        <input type="radio" readOnly checked={choice.value === String(c.value)} />
+                      </td>
+                      <td className="font-mono tabular-nums" style={{ ...cell, fontWeight: 700, whiteSpace: "nowrap" }}>
+                        {String(c.value)}
+                      </td>
+                      <td style={{ ...cell, whiteSpace: "nowrap", color: c.confidence < 60 ? "#9b1c1c" : undefined }}>
+                        {Math.round(c.confidence)}%
+                      </td>
+                      <td style={{ ...cell, opacity: 0.7 }}>
+                        「{c.snippet}」
+                        <span style={{ marginLeft: 4 }}>
+                          {c.method === "layout" ? "表" : c.method === "segment" ? "7セグ" : "文"}・{c.source}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-xs text-neutral-500" style={{ marginTop: 4 }}>候補なし</div>
+            )}
+          </div>
+        );
+      })}
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+        <button type="button" className="px-3 h-9 rounded-lg border hover:bg-neutral-50" disabled={!canApply} onClick={apply}>
+          ✅ まとめて反映
+        </button>
+        <button type="button" className="px-3 h-9 rounded-lg border hover:bg-neutral-50" onClick={onReject}>
+          すべて破棄
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  loadImageSource,
+  preprocessImage,
+  DEFAULT_PREPROCESS,
+  type CropRect,
+  type PreprocessInfo,
+  type PreprocessOptions,
+} from "./preprocess.ts";
+
+/* =========================================================
+   前処理パネル（切り抜き指定・設定・プレビュー・再読み取り）
+========================================================= */
+
+type Props = {
+  files: File[];
+  options: PreprocessOptions;
+  setOptions: (o: PreprocessOptions) => void;
+  crops: (CropRect | null)[];
+  setCrop: (index: number, crop: CropRect | null) => void;
+  busy: boolean;
+  onRetry: () => void;
+};
+
+const btn = "px-3 h-9 rounded-lg border hover:bg-neutral-50 shrink-0";
+const row: React.CSSProperties = { display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 12 };
+
+export default function PreprocessPanel({ files, options, setOptions, crops, setCrop, busy, onRetry }: Props) {
+  const [index, setIndex] = useState(0);
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [info, setInfo] = useState<PreprocessInfo | null>(null);
+  const [error, setError] = useState("");
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const file = files[Math.min(index, files.length - 1)];
+  const crop = crops[index] ?? null;
+
+  const set = <K extends keyof PreprocessOptions>(k: K, v: PreprocessOptions[K]) =>
+    setOptions({ ...options, [k]: v });
+
+  // 画像の読み込み
+  useEffect(() => {
+    if (!file) return;
+    let bm: ImageBitmap | null = null;
+    let cancelled = false;
+    loadImageSource(file)
+      .then(b => {
+        if (cancelled) { b.close(); return; }
+        bm = b;
+        setBitmap(b);
+        setError("");
+      })
+      .catch((e: unknown) => setError(`画像を読み込めません: ${e instanceof Error ? e.message : String(e)}`));
+    return () => { cancelled = true; bm?.close(); };
+  }, [file]);
+
+  // 設定が変わるたびにプレビューを作り直す
+  useEffect(() => {
+    if (!bitmap || !previewRef.current) return;
+    if (!options.enabled) {
+      setInfo(null);
+      return;
+    }
+    try {
+      const { canvas, info } = preprocessImage(bitmap, options, crop);
+      const out = previewRef.current;
+      out.width = canvas.width;
+      out.height = canvas.height;
+      out.getContext("2d")?.drawImage(canvas, 0, 0);
+      setInfo(info);
+      setError("");
+    } catch (e) {
+      setError(`前処理に失敗しました: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [bitmap, options, crop]);
+
+  if (files.length === 0) return null;
+
+  return (
+    <div className="space-y-3" style={{ borderTop: "1px solid #e5e5e5", paddingTop: 12 }}>
+      <div style={row}>
+        <label style={{ display: "flex", alignItems: "center", gap: 4, fontWeight: 700 }}>
+          <input type="checkbox" checked={options.enabled} onChange={(e) => set("enabled", e.target.checked)} />
+          前処理してから読み取る
+        </label>
+        {files.length > 1 && (
+          <select className="h-9 px-2 rounded-lg border" value={index} onChange={(e) => setIndex(Number(e.target.value))}>
+            {files.map((f, i) => <option key={i} value={i}>#{i + 1} {f.name}</option>)}
+          </select>
+        )}
+      </div>
+
+      {options.enabled && (
+        <>
+          {/* 切り抜き指定 */}
+          {bitmap && (
+            <CropSelector file={file} crop={crop} onChange={(c) => setCrop(index, c)} />
+          )}
+
+          <div style={row}>
+            <span>回転</span>
+            {([0, 90, 180, 270] as const).map(r => (
+              <label key={r} style={{ display: "flex", alignItems: "center", gap: 2 }}>
+                <input type="radio" checked={options.rotate === r} onChange={() => set("rotate", r)} />
+                {r}°
+              </label>
+            ))}
+          </div>
+          <div style={row}>
+            <span>微調整 {options.angle.toFixed(1)}°</span>
+            <input
+              type="range" min={-15} max={15} step={0.5}
+              value={options.angle}
+              onChange={(e) => set("angle", Number(e.target.value))}
+            />
+            <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+              <input type="checkbox" checked={options.deskew} onChange={(e) => set("deskew", e.target.checked)} />
+              傾き自動補正
+            </label>
+          </div>
+          <div style={row}>
+            <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+              <input type="checkbox" checked={options.grayscale} onChange={(e) => set("grayscale", e.target.checked)} />
+              グレースケール
+            </label>
+            <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+              <input type="checkbox" checked={options.contrast} onChange={(e) => set("contrast", e.target.checked)} />
+              コントラスト補正
+            </label>
+            <span>反転</span>
+            <select
+              className="h-9 px-2 rounded-lg border"
+              value={options.invert}
+              onChange={(e) => set("invert", e.target.value as PreprocessOptions["invert"])}
+            >
+              <option value="auto">自動（暗い画面）</option>
+              <option value="on">する</option>
+              <option value="off">しない</option>
+            </select>
+            <span>拡大</span>
+            <select
+              className="h-9 px-2 rounded-lg border"
+              value={String(options.upscale)}
+              onChange={(e) => {
+                const v = e.target.value;
+                set("upscale", v === "auto" ? "auto" : (Number(v) as 1 | 2 | 3));
+              }}
+            >
+              <option value="auto">自動</option>
+              <option value="1">等倍</option>
+              <option value="2">2倍</option>
+              <option value="3">3倍</option>
+            </select>
+          </div>
+          <div style={row}>
+            <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+              <input type="checkbox" checked={options.threshold} onChange={(e) => set("threshold", e.target.checked)} />
+              二値化（適応的）
+            </label>
+            {options.threshold && (
+              <>
+                <span>範囲 {options.blockSize}px</span>
+                <input
+                  type="range" min={9} max={99} step={2}
+                  value={options.blockSize}
+                  onChange={(e) => set("blockSize", Number(e.target.value))}
+                />
+                <span>強さ {options.thresholdC}</span>
+                <input
+                  type="range" min={0} max={40} step={1}
+                  value={options.thresholdC}
+                  onChange={(e) => set("thresholdC", Number(e.target.value))}
+                />
+              </>
+            )}
+          </div>
+
+          {/* プレビュー */}
+          <div className="bg-neutral-100 rounded-xl p-2" style={{ overflow: "auto", maxHeight: 320 }}>
+            <canvas ref={previewRef} style={{ maxWidth: "100%", height: "auto", display: "block" }} />
+          </div>
+          {info && (
+            <div className="text-xs text-neutral-500">
+              {info.width}×{info.height}px・回転 {info.angle.toFixed(1)}°
+              {options.deskew && `（自動補正 ${info.skew.toFixed(1)}°）`}
+              ・拡大 ×{info.scale.toFixed(2)}{info.inverted && "・反転"}
+            </div>
+          )}
+        </>
+      )}
+      {error && <div className="text-xs" style={{ color: "#9b1c1c" }}>{error}</div>}
+
+      <div style={row}>
+        <button type="button" className={btn} disabled={busy} onClick={onRetry}>
+          🔁 この設定で読み直す
+        </button>
+        <button
+          type="button"
+          className={btn}
+          onClick={() => setOptions({ ...DEFAULT_PREPROCESS, enabled: options.enabled })}
+        >
+          設定を初期値に戻す
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// 元画像の上をドラッグして読み取り範囲を指定
+function CropSelector({
+  file,
+  crop,
+  onChange,
+}: {
+  file: File;
+  crop: CropRect | null;
+  onChange: (c: CropRect | null) => void;
+}) {
+  const [url, setUrl] = useState("");
+  const [drag, setDrag] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const boxRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const u = URL.createObjectURL(file);
+    setUrl(u);
+    return () => URL.revokeObjectURL(u);
+  }, [file]);
+
+  const rel = (e: React.PointerEvent) => {
+    const r = boxRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - r.left) / r.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - r.top) / r.height)),
+    };
+  };
+  const toRect = (d: NonNullable<typeof drag>): CropRect => ({
+    x: Math.min(d.x0, d.x1),
+    y: Math.min(d.y0, d.y1),
+    w: Math.abs(d.x1 - d.x0),
+    h: Math.abs(d.y1 - d.y0),
+  });
+  const shown = drag ? toRect(drag) : crop;
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-neutral-500">
+        画像をなぞって読み取る範囲を指定できます。
+        {crop && (
+          <button type="button" className="rounded border text-xs" style={{ marginLeft: 8, padding: "2px 8px" }} onClick={() => onChange(null)}>
+            範囲を解除
+          </button>
+        )}
+      </div>
+      <div
+        ref={boxRef}
+        style={{ position: "relative", touchAction: "none", userSelect: "none", maxWidth: "100%", display: "inline-block" }}
+        onPointerDown={(e) => {
+          (e.target as Element).setPointerCapture?.(e.pointerId);
+          const p = rel(e);
+          setDrag({ x0: p.x, y0: p.y, x1: p.x, y1: p.y });
+        }}
+        onPointerMove={(e) => {
+          if (!drag) return;
+          const p = rel(e);
+          setDrag({ ...drag, x1: p.x, y1: p.y });
+        }}
+        onPointerUp={() => {
+          if (!drag) return;
+          const r = toRect(drag);
+          setDrag(null);
+          // 小さすぎる範囲はタップとみなして無視
+          if (r.w > 0.02 && r.h > 0.02) onChange(r);
+        }}
+      >
+        {url && <img src={url} alt="" draggable={false} style={{ maxWidth: "100%", maxHeight: 240, display: "block" }} />}
+        {shown && (
+          <div
+            style={{
+              position: "absolute",
+              left: `${shown.x * 100}%`,
+              top: `${shown.y * 100}%`,
+              width: `${shown.w * 100}%`,
+              height: `${shown.h * 100}%`,
+              border: "2px solid #e11d48",
+              background: "rgba(225, 29, 72, 0.1)",
+              pointerEvents: "none",
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
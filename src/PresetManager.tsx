@@ -0,0 +1,181 @@
+import { useRef, useState } from "react";
+import type { PresetMap } from "./presets.ts";
+
+/* =========================================================
+   カスタムプリセット管理（保存・複製・削除・JSON入出力）
+   と機種データ（カタログ）の取り込み
+========================================================= */
+
+type Props = {
+  custom: PresetMap;
+  currentKey: string;
+  log: string;
+  // 保存できなければエラーメッセージを返す
+  onSave: (name: string) => string | null;
+  onDuplicate: (name: string) => void;
+  onDelete: (name: string) => void;
+  onSelect: (name: string) => void;
+  onExport: () => void;
+  onImport: (files: FileList | null) => Promise<void>;
+  // 使っている機種データ
+  catalog: { revision: string; stored: boolean; errors: readonly string[] };
+  onExportCatalog: () => void;
+  onImportCatalog: (files: FileList | null) => Promise<void>;
+  onResetCatalog: () => void;
+};
+
+const btn = "px-3 h-9 rounded-lg border hover:bg-neutral-50 shrink-0";
+
+export default function PresetManager({
+  custom,
+  currentKey,
+  log,
+  onSave,
+  onDuplicate,
+  onDelete,
+  onSelect,
+  onExport,
+  onImport,
+  catalog,
+  onExportCatalog,
+  onImportCatalog,
+  onResetCatalog,
+}: Props) {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const catalogInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const names = Object.keys(custom);
+
+  function save() {
+    const err = onSave(name);
+    setError(err);
+    if (!err) setName("");
+  }
+
+  return (
+    <div className="space-y-3 mt-4" style={{ borderTop: "1px solid #e5e5e5", paddingTop: 12 }}>
+      <h3 className="text-sm font-semibold">カスタムプリセット</h3>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <input
+          type="text"
+          placeholder="名前（例: マイジャグラーV 甘め）"
+          className="h-9 px-2 rounded-lg border"
+          style={{ flex: "1 1 200px", minWidth: 0 }}
+          value={name}
+          onChange={(e) => { setName(e.target.value); setError(null); }}
+        />
+        <button type="button" className={btn} onClick={save}>
+          今の前提を保存
+        </button>
+        {custom[currentKey] && (
+          <button
+            type="button"
+            className={btn}
+            onClick={() => {
+              const err = onSave(currentKey);
+              setError(err);
+            }}
+          >
+            「{currentKey}」を上書き
+          </button>
+        )}
+      </div>
+      {error && <div className="text-xs" style={{ color: "#9b1c1c" }}>{error}</div>}
+
+      {names.length > 0 ? (
+        <ul className="text-sm" style={{ listStyle: "none", padding: 0, margin: 0 }}>
+          {names.map(n => (
+            <li
+              key={n}
+              className="flex items-center gap-2"
+              style={{ padding: "4px 0", borderBottom: "1px solid #f0f0f0" }}
+            >
+              <button
+                type="button"
+                className="text-left"
+                style={{ flex: "1 1 auto", fontWeight: n === currentKey ? 700 : undefined, background: "none", border: "none", padding: 0 }}
+                onClick={() => onSelect(n)}
+              >
+                {n}
+              </button>
+              <button type="button" className="rounded border text-xs" style={{ height: 30, padding: "0 8px" }} onClick={() => onDuplicate(n)}>
+                複製
+              </button>
+              <button
+                type="button"
+                className="rounded border text-xs"
+                style={{ height: 30, padding: "0 8px" }}
+                onClick={() => { if (window.confirm(`「${n}」を削除しますか？`)) onDelete(n); }}
+              >
+                削除
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-neutral-500">前提を編集して名前を付けて保存すると、機種の選択肢に追加されます。</p>
+      )}
+
+      <div className="flex items-center gap-2 flex-nowrap whitespace-nowrap overflow-x-auto">
+        <button type="button" className={btn} onClick={onExport} disabled={names.length === 0}>
+          JSON出力
+        </button>
+        <button type="button" className={btn} onClick={() => importInputRef.current?.click()}>
+          JSON取り込み
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={async (e) => {
+            await onImport(e.target.files);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      <h3 className="text-sm font-semibold">機種データ</h3>
+      <div className="text-xs text-neutral-500">
+        {catalog.stored ? "取り込んだ" : "組み込みの"}機種データ（{catalog.revision}）を使っています。
+        JSON を書き換えて取り込むと、機種の追加や数値の修正ができます（組み込みより古い日付のものは使いません）。
+      </div>
+      {catalog.errors.length > 0 && (
+        <div className="text-xs" style={{ color: "#9b1c1c" }}>
+          {catalog.errors.map((e, i) => <div key={i}>{e}</div>)}
+        </div>
+      )}
+      <div className="flex items-center gap-2 flex-nowrap whitespace-nowrap overflow-x-auto">
+        <button type="button" className={btn} onClick={onExportCatalog}>
+          機種データ出力
+        </button>
+        <button type="button" className={btn} onClick={() => catalogInputRef.current?.click()}>
+          機種データ取り込み
+        </button>
+        {catalog.stored && (
+          <button type="button" className={btn} onClick={onResetCatalog}>
+            組み込みに戻す
+          </button>
+        )}
+        <input
+          ref={catalogInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={async (e) => {
+            await onImportCatalog(e.target.files);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {log && (
+        <pre className="bg-neutral-100 rounded-xl p-3 text-xs overflow-auto max-h-48 whitespace-pre-wrap">
+          {log}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from "react";
+import { useRegisterSW } from "virtual:pwa-register/react";
+
+/* =========================================================
+   オフライン表示・更新のお知らせ（service worker）
+========================================================= */
+
+// 新しい版が出ていないか確認する間隔
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+function useOnline() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const on = () => setOnline(true);
+    const off = () => setOnline(false);
+    window.addEventListener("online", on);
+    window.addEventListener("offline", off);
+    return () => {
+      window.removeEventListener("online", on);
+      window.removeEventListener("offline", off);
+    };
+  }, []);
+  return online;
+}
+
+export default function PwaStatus() {
+  const online = useOnline();
+  const [registration, setRegistration] = useState<ServiceWorkerRegistration>();
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisteredSW(_url, reg) {
+      setRegistration(reg);
+    },
+  });
+
+  // 開きっぱなしでも新しい版に気づけるよう定期的に確認
+  useEffect(() => {
+    if (!registration) return;
+    const id = setInterval(() => { if (navigator.onLine) void registration.update(); }, UPDATE_CHECK_MS);
+    return () => clearInterval(id);
+  }, [registration]);
+
+  if (online && !needRefresh && !offlineReady) return null;
+
+  const bar: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: 8,
+    flexWrap: "wrap",
+    padding: "8px 12px",
+    borderRadius: 12,
+    fontSize: 13,
+  };
+  const btn = "px-3 h-8 rounded-lg border hover:bg-neutral-50 shrink-0";
+
+  return (
+    <div className="space-y-2">
+      {!online && (
+        <div style={{ ...bar, background: "#fff7e0", color: "#7a5300" }}>
+          📴 オフラインです。計算・履歴・画像の読み取りはこのまま使えます。
+        </div>
+      )}
+      {needRefresh && (
+        <div style={{ ...bar, background: "#e8f0ff", color: "#1e3a8a" }}>
+          <span style={{ flex: "1 1 auto" }}>🆕 新しい版があります。</span>
+          <button type="button" className={btn} onClick={() => void updateServiceWorker(true)}>
+            更新する
+          </button>
+          <button type="button" className={btn} onClick={() => setNeedRefresh(false)}>
+            あとで
+          </button>
+        </div>
+      )}
+      {offlineReady && !needRefresh && (
+        <div style={{ ...bar, background: "#e9f7ef", color: "#14532d" }}>
+          <span style={{ flex: "1 1 auto" }}>✅ オフラインでも使える準備ができました。</span>
+          <button type="button" className={btn} onClick={() => setOfflineReady(false)}>
+            閉じる
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { CropRect } from "./preprocess.ts";
+import { SEG_FIELDS, type SegField, type SegRegions } from "./sevenSeg.ts";
+import { FIELD_LABELS } from "./ocrParse.ts";
+
+/* =========================================================
+   データカウンター（7セグ）の読み取り範囲の指定
+========================================================= */
+
+type Props = {
+  files: File[];
+  regions: SegRegions;
+  setRegions: (r: SegRegions) => void;
+  busy: boolean;
+  onRead: () => void;
+};
+
+const btn = "px-3 h-9 rounded-lg border hover:bg-neutral-50 shrink-0";
+const row: React.CSSProperties = { display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 12 };
+const COLORS: Record<SegField, string> = { G: "#2563eb", big: "#e11d48", reg: "#16a34a" };
+
+export default function SegmentPanel({ files, regions, setRegions, busy, onRead }: Props) {
+  const [index, setIndex] = useState(0);
+  const [active, setActive] = useState<SegField>("G");
+  const [url, setUrl] = useState("");
+  const [drag, setDrag] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const file = files[Math.min(index, files.length - 1)];
+
+  useEffect(() => {
+    if (!file) return;
+    const u = URL.createObjectURL(file);
+    setUrl(u);
+    return () => URL.revokeObjectURL(u);
+  }, [file]);
+
+  const rel = (e: React.PointerEvent) => {
+    const r = boxRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - r.left) / r.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - r.top) / r.height)),
+    };
+  };
+  const toRect = (d: NonNullable<typeof drag>): CropRect => ({
+    x: Math.min(d.x0, d.x1),
+    y: Math.min(d.y0, d.y1),
+    w: Math.abs(d.x1 - d.x0),
+    h: Math.abs(d.y1 - d.y0),
+  });
+
+  function setRegion(field: SegField, rect: CropRect | null) {
+    const next = { ...regions };
+    if (rect) next[field] = rect;
+    else delete next[field];
+    setRegions(next);
+    // 指定したら、まだ範囲の無い次の項目へ
+    if (rect) {
+      const rest = SEG_FIELDS.filter(f => f !== field && !next[f]);
+      if (rest.length > 0) setActive(rest[0]);
+    }
+  }
+
+  if (files.length === 0) {
+    return (
+      <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+        データカウンターを撮った写真を選ぶと、総回転数・BIG・REG の数字の範囲を指定して読み取れます。
+      </p>
+    );
+  }
+
+  const hasRegion = SEG_FIELDS.some(f => regions[f]);
+
+  return (
+    <div className="space-y-3" style={{ borderTop: "1px solid #e5e5e5", paddingTop: 12 }}>
+      <div style={row}>
+        <span style={{ fontWeight: 700 }}>範囲を指定する項目</span>
+        {SEG_FIELDS.map(f => (
+          <label key={f} style={{ display: "flex", alignItems: "center", gap: 2, color: COLORS[f] }}>
+            <input type="radio" checked={active === f} onChange={() => setActive(f)} />
+            {FIELD_LABELS[f]}{regions[f] ? " ✓" : ""}
+          </label>
+        ))}
+        {files.length > 1 && (
+          <select className="h-9 px-2 rounded-lg border" value={index} onChange={(e) => setIndex(Number(e.target.value))}>
+            {files.map((f, i) => <option key={i} value={i}>#{i + 1} {f.name}</option>)}
+          </select>
+        )}
+      </div>
+      <div className="text-xs text-neutral-500">
+        画像の上で「{FIELD_LABELS[active]}」の数字だけを囲むようになぞってください（ラベルや他の数字は入れない）。範囲はすべての画像に同じ位置で使います。
+      </div>
+      <div
+        ref={boxRef}
+        style={{ position: "relative", touchAction: "none", userSelect: "none", maxWidth: "100%", display: "inline-block" }}
+        onPointerDown={(e) => {
+          (e.target as Element).setPointerCapture?.(e.pointerId);
+          const p = rel(e);
+          setDrag({ x0: p.x, y0: p.y, x1: p.x, y1: p.y });
+        }}
+        onPointerMove={(e) => {
+          if (!drag) return;
+          const p = rel(e);
+          setDrag({ ...drag, x1: p.x, y1: p.y });
+        }}
+        onPointerUp={() => {
+          if (!drag) return;
+          const r = toRect(drag);
+          setDrag(null);
+          // 小さすぎる範囲はタップとみなして無視
+          if (r.w > 0.01 && r.h > 0.01) setRegion(active, r);
+        }}
+      >
+        {url && <img src={url} alt="" draggable={false} style={{ maxWidth: "100%", maxHeight: 360, display: "block" }} />}
+        {SEG_FIELDS.map(f => {
+          const shown = drag && f === active ? toRect(drag) : regions[f];
+          if (!shown) return null;
+          return (
+            <div
+              key={f}
+              style={{
+                position: "absolute",
+                left: `${shown.x * 100}%`,
+                top: `${shown.y * 100}%`,
+                width: `${shown.w * 100}%`,
+                height: `${shown.h * 100}%`,
+                border: `2px solid ${COLORS[f]}`,
+                pointerEvents: "none",
+              }}
+            >
+              <span
+                style={{
+                  position: "absolute",
+                  left: 0,
+                  bottom: "100%",
+                  fontSize: 10,
+                  lineHeight: 1.4,
+                  padding: "0 3px",
+                  color: "#fff",
+                  background: COLORS[f],
+                  whiteSpace: "nowrap",
+                }}
+              >
+                {FIELD_LABELS[f]}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <div style={row}>
+        <button type="button" className={btn} disabled={busy || !hasRegion} onClick={onRead}>
+          🔢 7セグで読み取る
+        </button>
+        {regions[active] && (
+          <button type="button" className={btn} onClick={() => setRegion(active, null)}>
+            {FIELD_LABELS[active]}の範囲を解除
+          </button>
+        )}
+        {hasRegion && (
+          <button type="button" className={btn} onClick={() => { setRegions({}); setActive("G"); }}>
+            範囲をすべて解除
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useMemo, useState } from "react";
+import qrcode from "qrcode-generator";
+
+/* =========================================================
+   共有（URL・QR コードはすべて端末内で作る）
+========================================================= */
+
+type Props = {
+  url: string;
+};
+
+const btn = "px-3 h-9 rounded-lg border hover:bg-neutral-50 shrink-0";
+
+export default function SharePanel({ url }: Props) {
+  const [copied, setCopied] = useState("");
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied("コピーしました");
+    } catch {
+      setCopied("コピーできませんでした。長押しで選択してください");
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+        機種・G・BIG・REG・差枚と、変更した前提だけをリンクに入れます。QR を相手のカメラで読み取ってもらえば圏外でも渡せます。
+      </p>
+      <input
+        type="text"
+        readOnly
+        aria-label="共有リンク"
+        className="h-10 px-3 rounded-xl border font-mono"
+        style={{ width: "100%", boxSizing: "border-box", fontSize: 12 }}
+        value={url}
+        onFocus={(e) => e.target.select()}
+      />
+      <div className="flex items-center gap-2 flex-wrap">
+        <button type="button" className={btn} onClick={copy}>
+          リンクをコピー
+        </button>
+        {typeof navigator.share === "function" && (
+          <button
+            type="button"
+            className={btn}
+            onClick={() => { navigator.share({ title: "ジャグラーぶどう逆算", url }).catch(() => {}); }}
+          >
+            共有…
+          </button>
+        )}
+        {copied && <span className="text-xs text-neutral-500">{copied}</span>}
+      </div>
+      <QrCode text={url} />
+    </div>
+  );
+}
+
+// QR コード（SVG で描画）
+function QrCode({ text, size = 220 }: { text: string; size?: number }) {
+  const qr = useMemo(() => {
+    try {
+      const q = qrcode(0, "M");
+      q.addData(text);
+      q.make();
+      return q;
+    } catch {
+      // 長すぎて入らない
+      return null;
+    }
+  }, [text]);
+
+  if (!qr) return <div className="text-xs" style={{ color: "#9b1c1c" }}>リンクが長すぎて QR コードにできません。</div>;
+
+  const n = qr.getModuleCount();
+  const margin = 4;
+  const cells: string[] = [];
+  for (let r = 0; r < n; r++) {
+    for (let c = 0; c < n; c++) {
+      if (qr.isDark(r, c)) cells.push(`M${c + margin} ${r + margin}h1v1h-1z`);
+    }
+  }
+  return (
+    <svg
+      role="img"
+      aria-label="共有リンクの QR コード"
+      viewBox={`0 0 ${n + margin * 2} ${n + margin * 2}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      style={{ display: "block", background: "#fff" }}
+    >
+      <path d={cells.join("")} fill="#000" />
+    </svg>
+  );
+}
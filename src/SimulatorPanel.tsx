@@ -0,0 +1,240 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { ForwardProbs, Premise } from "./calc.ts";
+import type { SettingTable } from "./presets.ts";
+import type { StrategyProfile } from "./strategies.ts";
+import type { SimMessage, SimRequest, SimResult } from "./simulate.ts";
+import { formatInt, formatPercent, formatProb, numberOr } from "./format.ts";
+
+/* =========================================================
+   逆算の精度シミュレーション（ワーカーで仮想実戦を回す）
+========================================================= */
+
+type Props = {
+  premise: Premise;
+  settings?: SettingTable;
+  strategies: StrategyProfile[];
+  // 手入力欄の G（回転数の初期値）
+  G: number;
+};
+
+const SESSION_CHOICES = [500, 1000, 2000, 5000, 10000];
+const btn = "px-3 h-9 rounded-lg border hover:bg-neutral-50 shrink-0";
+
+export default function SimulatorPanel({ premise, settings, strategies, G }: Props) {
+  const [setting, setSetting] = useState(5);
+  const [custom, setCustom] = useState({ big: "", reg: "", grape: "" });
+  const [strategyKey, setStrategyKey] = useState(() => strategies[0]?.key ?? "");
+  const [gDraft, setGDraft] = useState("");
+  const [sessions, setSessions] = useState(2000);
+  const [seed, setSeed] = useState("1");
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<SimResult | null>(null);
+  const [error, setError] = useState("");
+  const workerRef = useRef<Worker | null>(null);
+
+  const g = numberOr(gDraft, G > 0 ? G : 8000);
+  const strategy = strategies.find(s => s.key === strategyKey) ?? strategies[0];
+  const probs: ForwardProbs | null = settings
+    ? { big: settings.big[setting], reg: settings.reg[setting], grape: settings.grape[setting] }
+    : (() => {
+        const v = { big: numberOr(custom.big, NaN), reg: numberOr(custom.reg, NaN), grape: numberOr(custom.grape, NaN) };
+        return v.big > 0 && v.reg > 0 && v.grape > 0 ? v : null;
+      })();
+  const canRun = probs != null && strategy != null && g > 0 && progress == null;
+
+  // 閉じたら止める
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  function stop() {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  }
+
+  function run() {
+    if (!probs || !strategy) return;
+    stop();
+    const req: SimRequest = {
+      g: Math.round(g),
+      sessions,
+      seed: Math.trunc(numberOr(seed, 1)),
+      probs,
+      premise,
+      capture: strategy.capture,
+    };
+    const worker = new Worker(new URL("./simulate.worker.ts", import.meta.url), { type: "module" });
+    workerRef.current = worker;
+    setProgress(0);
+    setError("");
+    worker.onmessage = (e: MessageEvent<SimMessage>) => {
+      const msg = e.data;
+      if (msg.type === "progress") {
+        setProgress(msg.done / msg.total);
+        return;
+      }
+      if (msg.type === "done") setResult(msg.result);
+      else setError(msg.message);
+      stop();
+    };
+    worker.onerror = (e) => {
+      setError(e.message || "シミュレーションに失敗しました");
+      stop();
+    };
+    worker.postMessage(req);
+  }
+
+  const row: React.CSSProperties = { display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 13 };
+  const cell: React.CSSProperties = { padding: "4px 6px", textAlign: "right", whiteSpace: "nowrap" };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+        設定の確率で仮想の実戦を作り、同じ逆算に通したときに推定ぶどう確率がどれだけ散らばるかを確かめます。同じシード値なら同じ結果になります。
+      </p>
+      <div style={row}>
+        {settings ? (
+          <select className="h-9 px-2 rounded-lg border" aria-label="設定" value={setting} onChange={(e) => setSetting(Number(e.target.value))}>
+            {[0, 1, 2, 3, 4, 5].map(i => <option key={i} value={i}>設定{i + 1}</option>)}
+          </select>
+        ) : (
+          (["big", "reg", "grape"] as const).map(k => (
+            <label key={k} style={{ display: "flex", alignItems: "center", gap: 4 }}>
+              {k === "big" ? "BIG" : k === "reg" ? "REG" : "ぶどう"} 1/
+              <input
+                type="text"
+                inputMode="decimal"
+                className="h-9 px-2 rounded-lg border"
+                style={{ width: "7ch", textAlign: "right" }}
+                value={custom[k]}
+                onChange={(e) => setCustom(c => ({ ...c, [k]: e.target.value }))}
+              />
+            </label>
+          ))
+        )}
+        <span>打法</span>
+        <select className="h-9 px-2 rounded-lg border" value={strategy?.key ?? ""} onChange={(e) => setStrategyKey(e.target.value)}>
+          {strategies.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+        </select>
+      </div>
+      <div style={row}>
+        <span>回転数</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          className="h-9 px-2 rounded-lg border"
+          style={{ width: "8ch", textAlign: "right" }}
+          value={gDraft}
+          placeholder={String(g)}
+          onChange={(e) => setGDraft(e.target.value)}
+        />
+        <span>G ×</span>
+        <select className="h-9 px-2 rounded-lg border" aria-label="試行回数" value={sessions} onChange={(e) => setSessions(Number(e.target.value))}>
+          {SESSION_CHOICES.map(n => <option key={n} value={n}>{formatInt(n)}回</option>)}
+        </select>
+        <span>シード</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          className="h-9 px-2 rounded-lg border"
+          style={{ width: "8ch", textAlign: "right" }}
+          value={seed}
+          onChange={(e) => setSeed(e.target.value.replace(/[^\d]/g, ""))}
+        />
+      </div>
+      <div className="flex items-center gap-2 flex-wrap">
+        <button type="button" className={btn} disabled={!canRun} onClick={run}>
+          ▶ シミュレーション
+        </button>
+        {progress != null && (
+          <>
+            <span className="text-xs">計算中 {formatPercent(progress, 0)}</span>
+            <button type="button" className={btn} onClick={stop}>⏹ 中止</button>
+          </>
+        )}
+      </div>
+      {!settings && !probs && (
+        <p className="text-xs text-neutral-500" style={{ margin: 0 }}>このプリセットには設定別の確率が無いため、確率を指定してください。</p>
+      )}
+      {error && <div className="text-xs" style={{ color: "#9b1c1c" }}>❌ {error}</div>}
+
+      {result && (
+        <>
+          <Histogram result={result} />
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+              <tbody>
+                <tr className="border-b">
+                  <td style={{ ...cell, textAlign: "left" }}>真のぶどう確率</td>
+                  <td className="font-mono tabular-nums" style={{ ...cell, fontWeight: 700 }}>{formatProb(result.trueProb)}</td>
+                </tr>
+                <tr className="border-b">
+                  <td style={{ ...cell, textAlign: "left" }}>推定の平均・中央値</td>
+                  <td className="font-mono tabular-nums" style={cell}>{formatProb(result.mean)}・{formatProb(result.median)}</td>
+                </tr>
+                <tr className="border-b">
+                  <td style={{ ...cell, textAlign: "left" }}>偏り（平均 − 真の値）</td>
+                  <td className="font-mono tabular-nums" style={cell}>{result.bias > 0 ? "+" : ""}{result.bias.toFixed(3)}</td>
+                </tr>
+                <tr className="border-b">
+                  <td style={{ ...cell, textAlign: "left" }}>ばらつき（標準偏差）</td>
+                  <td className="font-mono tabular-nums" style={{ ...cell, fontWeight: 700 }}>±{result.sd.toFixed(3)}</td>
+                </tr>
+                <tr className="border-b">
+                  <td style={{ ...cell, textAlign: "left" }}>90%・95%区間に真の値が入った割合</td>
+                  <td className="font-mono tabular-nums" style={cell}>
+                    {formatPercent(result.coverage90)}・{formatPercent(result.coverage95)}
+                  </td>
+                </tr>
+                {result.zeroCount > 0 && (
+                  <tr>
+                    <td style={{ ...cell, textAlign: "left" }}>ぶどう0回（グラフ外）</td>
+                    <td className="font-mono tabular-nums" style={cell}>{formatInt(result.zeroCount)}回</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+            {formatInt(result.request.g)}G × {formatInt(result.request.sessions)}回、シード {result.request.seed}。
+            区間に入った割合が 90%・95% に近いほど、表示している区間の幅が実態に合っています。
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+// 推定ぶどう確率のヒストグラム（実線=真の値、点線=推定の平均）
+function Histogram({ result }: { result: SimResult }) {
+  const { bins, trueProb, mean } = result;
+  const width = 360;
+  const height = 120;
+  const axisH = 16;
+  const lo = bins[0]?.lo ?? 0;
+  const hi = bins[bins.length - 1]?.hi ?? 1;
+  const maxCount = Math.max(1, ...bins.map(b => b.count));
+  const x = (v: number) => ((v - lo) / (hi - lo)) * width;
+  const barW = width / Math.max(1, bins.length);
+
+  return (
+    <svg
+      role="img"
+      aria-label="推定ぶどう確率の分布"
+      viewBox={`0 0 ${width} ${height + axisH}`}
+      style={{ width: "100%", maxWidth: 560, display: "block" }}
+    >
+      {bins.map((b, i) => {
+        const h = (b.count / maxCount) * height;
+        return <rect key={i} x={i * barW + 0.5} y={height - h} width={barW - 1} height={h} fill="#c4b5fd" />;
+      })}
+      <line x1={x(trueProb)} x2={x(trueProb)} y1={0} y2={height} stroke="#7c3aed" strokeWidth={2} />
+      {isFinite(mean) && (
+        <line x1={x(mean)} x2={x(mean)} y1={0} y2={height} stroke="#333" strokeWidth={1} strokeDasharray="3 3" />
+      )}
+      <line x1={0} x2={width} y1={height} y2={height} stroke="#999" />
+      <text x={0} y={height + 12} fontSize={10}>{formatProb(lo)}</text>
+      <text x={x(trueProb)} y={height + 12} fontSize={10} textAnchor="middle" fill="#7c3aed">{formatProb(trueProb)}</text>
+      <text x={width} y={height + 12} fontSize={10} textAnchor="end">{formatProb(hi)}</text>
+    </svg>
+  );
+}
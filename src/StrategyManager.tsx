@@ -0,0 +1,173 @@
+import React, { useState } from "react";
+import type { CaptureInput, Premise } from "./calc.ts";
+import {
+  allProfiles,
+  captureSensitivity,
+  newProfileKey,
+  CAPTURE_KEYS,
+  CAPTURE_LABELS,
+  type StrategyProfile,
+  type StrategySettings,
+} from "./strategies.ts";
+import { formatPercent, formatProb } from "./format.ts";
+
+/* =========================================================
+   打法プロファイル（取得率の編集・カード表示の選択・感度）
+========================================================= */
+
+type Props = {
+  settings: StrategySettings;
+  onChange: (s: StrategySettings) => void;
+  input: CaptureInput;
+  premise: Premise;
+};
+
+const btn = "px-3 h-9 rounded-lg border hover:bg-neutral-50 shrink-0";
+const small: React.CSSProperties = { height: 30, padding: "0 8px", fontSize: 12 };
+
+export default function StrategyManager({ settings, onChange, input, premise }: Props) {
+  const profiles = allProfiles(settings);
+  const [sensKey, setSensKey] = useState<string>(() => settings.visible[0] ?? profiles[0].key);
+  const sensProfile = profiles.find(p => p.key === sensKey) ?? profiles[0];
+  const visible = new Set(settings.visible);
+
+  function toggle(key: string, on: boolean) {
+    const next = on ? [...settings.visible, key] : settings.visible.filter(k => k !== key);
+    onChange({ ...settings, visible: next });
+  }
+  function updateCustom(key: string, patch: Partial<StrategyProfile>) {
+    onChange({
+      ...settings,
+      custom: settings.custom.map(p => (p.key === key ? { ...p, ...patch, capture: { ...p.capture, ...patch.capture } } : p)),
+    });
+  }
+  function duplicate(src: StrategyProfile) {
+    const p: StrategyProfile = { key: newProfileKey(), label: `${src.label} のコピー`, capture: { ...src.capture } };
+    onChange({ custom: [...settings.custom, p], visible: [...settings.visible, p.key] });
+    setSensKey(p.key);
+  }
+  function remove(key: string) {
+    onChange({ custom: settings.custom.filter(p => p.key !== key), visible: settings.visible.filter(k => k !== key) });
+    if (sensKey === key) setSensKey(settings.visible.find(k => k !== key) ?? profiles[0].key);
+  }
+
+  const sens = captureSensitivity(input, premise, sensProfile.capture);
+  const cell: React.CSSProperties = { padding: "4px 6px", textAlign: "right", whiteSpace: "nowrap" };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+        チェックした打法が結果のカードに並びます。組み込みの打法は「複製」してから取得率を変えられます。
+      </p>
+      <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+        {profiles.map(p => (
+          <li key={p.key} style={{ padding: "6px 0", borderBottom: "1px solid #f0f0f0" }}>
+            <div className="flex items-center gap-2 flex-wrap" style={{ fontSize: 13 }}>
+              <input
+                type="checkbox"
+                aria-label={`${p.label}をカードに表示`}
+                checked={visible.has(p.key)}
+                onChange={(e) => toggle(p.key, e.target.checked)}
+              />
+              {p.builtin ? (
+                <span style={{ fontWeight: 700, flex: "1 1 auto" }}>{p.label}</span>
+              ) : (
+                <input
+                  type="text"
+                  className="h-8 px-2 rounded border"
+                  style={{ flex: "1 1 160px", minWidth: 0 }}
+                  value={p.label}
+                  onChange={(e) => updateCustom(p.key, { label: e.target.value })}
+                />
+              )}
+              {p.builtin && (
+                <span className="text-xs text-neutral-500">
+                  {CAPTURE_KEYS.map(k => `${CAPTURE_LABELS[k]} ${formatPercent(p.capture[k], 0)}`).join("・")}
+                </span>
+              )}
+              <button type="button" className="rounded border" style={small} onClick={() => duplicate(p)}>
+                複製
+              </button>
+              {!p.builtin && (
+                <button
+                  type="button"
+                  className="rounded border"
+                  style={small}
+                  onClick={() => { if (window.confirm(`「${p.label}」を削除しますか？`)) remove(p.key); }}
+                >
+                  削除
+                </button>
+              )}
+            </div>
+            {!p.builtin && (
+              <div style={{ display: "grid", gridTemplateColumns: "auto 1fr auto", gap: "2px 8px", alignItems: "center", fontSize: 12, marginTop: 4 }}>
+                {CAPTURE_KEYS.map(k => (
+                  <React.Fragment key={k}>
+                    <span>{CAPTURE_LABELS[k]}</span>
+                    <input
+                      type="range" min={0} max={100} step={1}
+                      aria-label={`${p.label}の${CAPTURE_LABELS[k]}取得率`}
+                      value={Math.round(p.capture[k] * 100)}
+                      onChange={(e) => updateCustom(p.key, { capture: { ...p.capture, [k]: Number(e.target.value) / 100 } })}
+                    />
+                    <span className="font-mono tabular-nums" style={{ width: "4ch", textAlign: "right" }}>
+                      {Math.round(p.capture[k] * 100)}%
+                    </span>
+                  </React.Fragment>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      {settings.visible.length === 0 && (
+        <div className="text-xs" style={{ color: "#9b1c1c" }}>カードに出す打法を1つ以上選んでください。</div>
+      )}
+
+      {/* 感度 */}
+      <div className="space-y-1">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="text-sm font-semibold">取得率の感度</span>
+          <select className="h-9 px-2 rounded-lg border" value={sensProfile.key} onChange={(e) => setSensKey(e.target.value)}>
+            {profiles.map(p => <option key={p.key} value={p.key}>{p.label}</option>)}
+          </select>
+        </div>
+        {input.G > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+              <thead>
+                <tr className="bg-neutral-50">
+                  <th style={{ ...cell, textAlign: "left" }}>取得率</th>
+                  <th style={cell}>−10%</th>
+                  <th style={cell}>現在</th>
+                  <th style={cell}>+10%</th>
+                  <th style={cell}>+1%あたり</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sens.map(s => (
+                  <tr key={s.factor} className="border-b last:border-0">
+                    <td style={{ ...cell, textAlign: "left" }}>{CAPTURE_LABELS[s.factor]}</td>
+                    {[s.low, s.base, s.high].map((v, i) => (
+                      <td key={i} className="font-mono tabular-nums" style={{ ...cell, fontWeight: i === 1 ? 700 : undefined }}>
+                        {formatProb(v.prob)}
+                        <div style={{ opacity: 0.6 }}>{formatPercent(v.capture, 0)}</div>
+                      </td>
+                    ))}
+                    <td className="font-mono tabular-nums" style={cell}>{s.countPerPct.toFixed(2)}回</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-xs text-neutral-500">総回転数を入力すると、取得率を動かしたときのぶどう確率の変化を表示します。</p>
+        )}
+      </div>
+
+      <button type="button" className={btn} onClick={() => duplicate(sensProfile)}>
+        「{sensProfile.label}」をもとに新しい打法を作る
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import React, { useRef, useState } from "react";
+import {
+  importFromText,
+  findMachines,
+  readSavedPage,
+  tablesFromHtml,
+  type ImportedMachine,
+  type TableImportResult,
+} from "./tableImport.ts";
+import { formatInt } from "./format.ts";
+
+/* =========================================================
+   保存したページ・表の取り込み（OCR を使わずに数値を入れる）
+========================================================= */
+
+type Props = {
+  modelNames: string[];
+  // 1台を計算機へ
+  onOpen: (m: ImportedMachine) => void;
+  // まとめて島の表へ
+  onAddToIsland: (ms: ImportedMachine[]) => void;
+};
+
+const btn = "px-3 h-9 rounded-lg border hover:bg-neutral-50 shrink-0";
+
+const METHOD_LABELS: Record<TableImportResult["method"], string> = {
+  header: "表の見出し",
+  keyValue: "項目名と値の組",
+  text: "テキスト",
+};
+
+export default function TableImportPanel({ modelNames, onOpen, onAddToIsland }: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<TableImportResult | null>(null);
+  const [log, setLog] = useState("");
+
+  function show(r: TableImportResult | null, source: string) {
+    setResult(r);
+    setLog(
+      r
+        ? `${source}: ${METHOD_LABELS[r.method]}から${r.machines.length}台分を見つけました。${r.headers.length > 0 ? `（見出し: ${r.headers.join("・")}）` : ""}`
+        : `${source}: G・BB・RB の並んだ表が見つかりませんでした。`
+    );
+  }
+
+  async function handleFile(files: FileList | null) {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      const html = await readSavedPage(file);
+      const doc = new DOMParser().parseFromString(html, "text/html");
+      show(findMachines(tablesFromHtml(html), modelNames, doc.body?.textContent ?? ""), file.name);
+    } catch (e) {
+      setResult(null);
+      setLog(`❌ ${file.name} を読めませんでした: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  const cell: React.CSSProperties = { padding: "4px 6px", textAlign: "right", whiteSpace: "nowrap" };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-neutral-500" style={{ margin: 0 }}>
+        データサイトのページを「ページを保存」した .html / .mhtml ファイル、またはコピーした表を貼り付けると、台番・G・BB・RB・差枚を取り込めます（通信はしません）。
+      </p>
+      <div className="flex items-center gap-2 flex-wrap">
+        <button type="button" className={btn} onClick={() => fileRef.current?.click()}>
+          📄 保存したページを選ぶ
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".html,.htm,.mhtml,.mht,text/html,multipart/related"
+          className="hidden"
+          onChange={(e) => { handleFile(e.target.files); e.target.value = ""; }}
+        />
+      </div>
+      <textarea
+        aria-label="表の貼り付け"
+        placeholder={"表を貼り付け（例）\n台番\tG数\tBB\tRB\t差枚\n101\t7654\t30\t25\t+1200"}
+        className="rounded-xl border p-2 font-mono"
+        style={{ width: "100%", boxSizing: "border-box", minHeight: 96, fontSize: 12 }}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <div className="flex items-center gap-2 flex-wrap">
+        <button type="button" className={btn} disabled={!text.trim()} onClick={() => show(importFromText(text, modelNames), "貼り付け")}>
+          貼り付けた表を読む
+        </button>
+        {result && result.machines.length > 1 && (
+          <button type="button" className={btn} onClick={() => { onAddToIsland(result.machines); setLog(l => `${l}\n島の表に追加しました。`); }}>
+            {result.machines.length}台を島の表に追加
+          </button>
+        )}
+      </div>
+      {log && <div className="text-xs" style={{ whiteSpace: "pre-wrap" }}>{log}</div>}
+
+      {result && result.machines.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full border-collapse" style={{ fontSize: 12 }}>
+            <thead>
+              <tr className="bg-neutral-50">
+                <th style={{ ...cell, textAlign: "left" }}>台番</th>
+                <th style={{ ...cell, textAlign: "left" }}>機種</th>
+                <th style={cell}>G</th>
+                <th style={cell}>BB</th>
+                <th style={cell}>RB</th>
+                <th style={cell}>差枚</th>
+                <th style={cell}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.machines.map((m, i) => (
+                <tr key={i} className="border-b">
+                  <td style={{ ...cell, textAlign: "left" }}>{m.number || "-"}</td>
+                  <td style={{ ...cell, textAlign: "left" }}>{m.modelKey ?? "-"}</td>
+                  <td className="font-mono tabular-nums" style={cell}>{formatInt(m.G)}</td>
+                  <td className="font-mono tabular-nums" style={cell}>{m.big}</td>
+                  <td className="font-mono tabular-nums" style={cell}>{m.reg}</td>
+                  <td className="font-mono tabular-nums" style={cell}>
+                    {m.diff == null ? "-" : `${m.diff > 0 ? "+" : ""}${formatInt(m.diff)}`}
+                  </td>
+                  <td style={cell}>
+                    <button
+                      type="button"
+                      className="rounded border"
+                      style={{ height: 30, padding: "0 8px", fontSize: 12 }}
+                      onClick={() => onOpen(m)}
+                    >
+                      計算機へ
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import {
+  calcForward,
+  calcResultByCapture,
+  cherryOverlap,
+  type Capture,
+  type CaptureInput,
+  type ForwardProbs,
+  type Premise,
+} from "./calc.ts";
+import { trySetItem } from "./format.ts";
+import type { SettingTable } from "./presets.ts";
+import { estimateSetting } from "./settingEstimate.ts";
+
+/* -----------------------
+   続行・ヤメの判断材料（設定の見込み × 残り G の期待値・破産確率・損益分岐）
+----------------------- */
+const ADVISOR_KEY = "jug-ocr-v1.2:advisor";
+
+// 交換率（100円あたりの枚数。等価は 5.0 枚）
+export const EXCHANGE_RATES = [
+  { label: "等価", coinsPer100: 5.0 },
+  { label: "5.5枚", coinsPer100: 5.5 },
+  { label: "5.6枚", coinsPer100: 5.6 },
+  { label: "6.0枚", coinsPer100: 6.0 },
+  { label: "7.0枚", coinsPer100: 7.0 },
+] as const;
+// 1000円で借りられる枚数（20円スロ）
+export const DEFAULT_LEND_PER_1000 = 50;
+// 1時間あたりの回転数（ボーナス消化込みの目安）
+export const DEFAULT_GAMES_PER_HOUR = 750;
+
+export type SettingOutlook = {
+  // 設定 1〜6（index 0 = 設定1）
+  setting: number;
+  // 見込み（合計 1）
+  weight: number;
+  // 残り G の期待差枚・標準偏差
+  diff: number;
+  diffSd: number;
+  payout: number;
+  // 予算を使い切る確率
+  ruin: number;
+};
+
+export type Advice = {
+  games: number;
+  perSetting: SettingOutlook[];
+  // 見込みで平均した期待差枚・標準偏差
+  diff: number;
+  diffSd: number;
+  yen: number;
+  ruin: number;
+  // 損益分岐（期待差枚がプラスになる設定が threshold 以上で、その見込みが need 以上あればプラス）
+  breakEven: { threshold: number; need: number; current: number } | null;
+};
+
+// 標準正規分布の累積分布（Abramowitz–Stegun 7.1.26）
+function normalCdf(x: number) {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(x) / Math.SQRT2));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * games G のうちに差枚が -budget 枚まで落ちる確率。
+ * 1G ごとの純増を平均 mean・分散 variance のランダムウォークとみなした近似（ブラウン運動の最小値の分布）。
+ * 実際はボーナスで大きく跳ねるので目安。
+ */
+export function ruinProbability(budget: number, games: number, mean: number, variance: number) {
+  if (!(budget > 0)) return 1;
+  if (!(games > 0)) return 0;
+  const sd = Math.sqrt(variance * games);
+  if (!(sd > 0)) return mean * games <= -budget ? 1 : 0;
+  const drift = mean * games;
+  const direct = normalCdf((-budget - drift) / sd);
+  // 反射項。exp が溢れるときは 0 に近い（平均が大きくプラス）か 1 を超える（大きくマイナス）ので打ち切る
+  const reflect = Math.exp(Math.min(700, (-2 * mean * budget) / variance)) * normalCdf((-budget + drift) / sd);
+  return Math.min(1, Math.max(0, direct + (isFinite(reflect) ? reflect : 1)));
+}
+
+function settingProbs(table: SettingTable, i: number): ForwardProbs {
+  return { big: table.big[i], reg: table.reg[i], grape: table.grape[i], bigCherry: table.bigCherry?.[i], regCherry: table.regCherry?.[i] };
+}
+
+/**
+ * 今の入力（G・BIG・REG・逆算ぶどう）から設定1〜6の見込みを出す。G が無ければ null。
+ */
+export function beliefFromInput(input: CaptureInput, premise: Premise, capture: Capture, table: SettingTable) {
+  const res = calcResultByCapture(input, premise, capture);
+  const est = estimateSetting({
+    G: input.G,
+    big: input.big,
+    reg: input.reg,
+    grapes: res.grapesCount,
+    bigCherry: cherryOverlap(input, "big"),
+    regCherry: cherryOverlap(input, "reg"),
+  }, table);
+  return est?.posterior ?? null;
+}
+
+// 手入力の重み（空欄・負は 0）を合計 1 にそろえる。全部 0 なら null
+export function normalizeBelief(weights: number[]) {
+  const w = weights.map(x => (x > 0 && isFinite(x) ? x : 0));
+  const sum = w.reduce((a, b) => a + b, 0);
+  return sum > 0 ? w.map(x => x / sum) : null;
+}
+
+/**
+ * 残り games G 打ったときの期待差枚・円換算・破産確率・損益分岐。
+ * budget は追加で使える枚数、yenPerCoin は交換のときの 1 枚の値段。
+ */
+export function adviseContinue(
+  belief: number[],
+  games: number,
+  premise: Premise,
+  capture: Capture,
+  table: SettingTable,
+  budget: number,
+  yenPerCoin: number,
+): Advice {
+  const perSetting: SettingOutlook[] = belief.map((weight, i) => {
+    const f = calcForward(games, settingProbs(table, i), premise, capture);
+    const variance = games > 0 ? f.diffSd ** 2 / games : 0;
+    return {
+      setting: i + 1,
+      weight,
+      diff: f.diff,
+      diffSd: f.diffSd,
+      payout: f.payout,
+      ruin: ruinProbability(budget, games, games > 0 ? f.diff / games : 0, variance),
+    };
+  });
+
+  // 混合分布の平均・分散
+  const diff = perSetting.reduce((a, s) => a + s.weight * s.diff, 0);
+  const second = perSetting.reduce((a, s) => a + s.weight * (s.diffSd ** 2 + s.diff ** 2), 0);
+  const diffSd = Math.sqrt(Math.max(0, second - diff ** 2));
+  const ruin = perSetting.reduce((a, s) => a + s.weight * s.ruin, 0);
+
+  return { games, perSetting, diff, diffSd, yen: diff * yenPerCoin, ruin, breakEven: breakEven(perSetting) };
+}
+
+// 期待差枚がプラスの設定（高設定側）とマイナスの設定に分け、
+// それぞれの中の見込みの比は保ったまま、高設定側の見込みがいくつならちょうど 0 になるか
+function breakEven(perSetting: SettingOutlook[]): Advice["breakEven"] {
+  const high = perSetting.filter(s => s.diff > 0);
+  const low = perSetting.filter(s => s.diff <= 0);
+  if (high.length === 0 || low.length === 0) return null;
+  const groupMean = (group: SettingOutlook[]) => {
+    const w = group.reduce((a, s) => a + s.weight, 0);
+    // 見込みが 0 のグループは均等とみなす
+    return w > 0
+      ? group.reduce((a, s) => a + s.weight * s.diff, 0) / w
+      : group.reduce((a, s) => a + s.diff, 0) / group.length;
+  };
+  const muHigh = groupMean(high);
+  const muLow = groupMean(low);
+  return {
+    threshold: Math.min(...high.map(s => s.setting)),
+    need: -muLow / (muHigh - muLow),
+    current: high.reduce((a, s) => a + s.weight, 0),
+  };
+}
+
+/* -----------------------
+   入力の保存（localStorage）
+----------------------- */
+export type AdvisorDraft = {
+  minutes: string;
+  gamesPerHour: string;
+  budgetYen: string;
+  rate: string;
+  lendPer1000: string;
+};
+
+const EMPTY_DRAFT: AdvisorDraft = { minutes: "", gamesPerHour: "", budgetYen: "", rate: EXCHANGE_RATES[0].label, lendPer1000: "" };
+
+export function loadAdvisorDraft(): AdvisorDraft {
+  try {
+    const raw = localStorage.getItem(ADVISOR_KEY);
+    const v = raw ? JSON.parse(raw) : {};
+    const out = { ...EMPTY_DRAFT };
+    for (const k of Object.keys(EMPTY_DRAFT) as (keyof AdvisorDraft)[]) {
+      if (typeof v[k] === "string") out[k] = v[k];
+    }
+    return out;
+  } catch {
+    return { ...EMPTY_DRAFT };
+  }
+}
+export function saveAdvisorDraft(draft: AdvisorDraft) {
+  trySetItem(ADVISOR_KEY, JSON.stringify(draft));
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { aggregateHistory } from "./analytics.ts";
+import { buildHistoryRow } from "./history.ts";
+import { PRESETS } from "./presets.ts";
+
+const MODEL = "マイジャグラーV";
+const input = { G: 5000, big: 20, reg: 18, diff: 600 };
+const capture = { cherry: 1, bell: 0, piero: 0 };
+
+// 月曜 1:00 に保存した、日曜（2026-10-18）の履歴
+const savedAfterMidnight = new Date(2026, 9, 19, 1, 0).getTime();
+
+describe("aggregateHistory", () => {
+  it("日付・曜日は打った日でまとめる", () => {
+    const row = buildHistoryRow(MODEL, input, PRESETS[MODEL], { createdAt: savedAfterMidnight, playDate: "2026-10-18" });
+    expect(aggregateHistory([row], "weekday", capture, PRESETS).map(g => g.label)).toEqual(["日曜"]);
+    expect(aggregateHistory([row], "dayOfMonth", capture, PRESETS).map(g => g.label)).toEqual(["18日"]);
+  });
+
+  it("打った日が無い履歴は保存日時でまとめる", () => {
+    const row = buildHistoryRow(MODEL, input, PRESETS[MODEL], { createdAt: savedAfterMidnight });
+    expect(aggregateHistory([row], "weekday", capture, PRESETS).map(g => g.label)).toEqual(["月曜"]);
+    expect(aggregateHistory([row], "dayOfMonth", capture, PRESETS).map(g => g.label)).toEqual(["19日"]);
+  });
+});
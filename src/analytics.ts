@@ -0,0 +1,141 @@
+import { calcResultByCapture, cherryOverlap, type Capture } from "./calc.ts";
+import { playedOn, type HistoryRow } from "./history.ts";
+import type { PresetMap } from "./presets.ts";
+import { estimateSetting, expectedSetting } from "./settingEstimate.ts";
+
+/* -----------------------
+   履歴の集計（ホール・日付・曜日・台番ごと）
+----------------------- */
+
+export type GroupBy = "hall" | "dayOfMonth" | "weekday" | "machineNo" | "modelKey";
+
+export const GROUP_LABELS: Record<GroupBy, string> = {
+  hall: "ホール",
+  dayOfMonth: "日付（毎月◯日）",
+  weekday: "曜日",
+  machineNo: "台番",
+  modelKey: "機種",
+};
+
+const WEEKDAYS = ["日", "月", "火", "水", "木", "金", "土"];
+const UNKNOWN = "（未入力）";
+
+export type GroupStat = {
+  key: string;
+  label: string;
+  // 並べ替え用
+  order: number | string;
+  records: number;
+  G: number;
+  big: number;
+  reg: number;
+  diff: number;
+  grapes: number;
+  bigProb: number;
+  regProb: number;
+  combinedProb: number;
+  grapeProb: number;
+  avgDiff: number;
+  // 期待設定の平均（設定表のある機種だけ）
+  avgSetting: number;
+  settingRecords: number;
+};
+
+function groupKey(row: HistoryRow, by: GroupBy): { key: string; label: string; order: number | string } {
+  const d = playedOn(row);
+  switch (by) {
+    case "dayOfMonth":
+      return { key: String(d.getDate()), label: `${d.getDate()}日`, order: d.getDate() };
+    case "weekday":
+      return { key: String(d.getDay()), label: `${WEEKDAYS[d.getDay()]}曜`, order: d.getDay() };
+    default: {
+      const v = (row[by] ?? "").trim();
+      return { key: v || UNKNOWN, label: v || UNKNOWN, order: v };
+    }
+  }
+}
+
+/**
+ * 入力値の残っている履歴を groupBy ごとに集計する。
+ * ぶどうは capture の取得率で逆算し直した回数の合計から求める。
+ */
+export function aggregateHistory(
+  rows: HistoryRow[],
+  by: GroupBy,
+  capture: Capture,
+  presets: PresetMap,
+): GroupStat[] {
+  const groups = new Map<string, GroupStat & { settingSum: number }>();
+  for (const row of rows) {
+    const premise = row.premise ?? presets[row.modelKey];
+    if (!row.input || !premise || !(row.input.G > 0)) continue;
+    const { key, label, order } = groupKey(row, by);
+    let g = groups.get(key);
+    if (!g) {
+      g = {
+        key, label, order,
+        records: 0, G: 0, big: 0, reg: 0, diff: 0, grapes: 0,
+        bigProb: 0, regProb: 0, combinedProb: 0, grapeProb: 0, avgDiff: 0,
+        avgSetting: NaN, settingRecords: 0, settingSum: 0,
+      };
+      groups.set(key, g);
+    }
+    const { grapesCount } = calcResultByCapture(row.input, premise, capture);
+    g.records++;
+    g.G += row.input.G;
+    g.big += row.input.big;
+    g.reg += row.input.reg;
+    g.diff += row.input.diff;
+    g.grapes += grapesCount;
+
+    const table = presets[row.modelKey]?.settings;
+    const est = table
+      ? estimateSetting({
+          G: row.input.G,
+          big: row.input.big,
+          reg: row.input.reg,
+          grapes: grapesCount,
+          bigCherry: cherryOverlap(row.input, "big"),
+          regCherry: cherryOverlap(row.input, "reg"),
+        }, table)
+      : null;
+    if (est) {
+      g.settingSum += expectedSetting(est.posterior);
+      g.settingRecords++;
+    }
+  }
+
+  const div = (a: number, b: number) => (b > 0 ? a / b : Infinity);
+  return [...groups.values()]
+    .map(({ settingSum, ...g }) => ({
+      ...g,
+      bigProb: div(g.G, g.big),
+      regProb: div(g.G, g.reg),
+      combinedProb: div(g.G, g.big + g.reg),
+      grapeProb: div(g.G, g.grapes),
+      avgDiff: g.diff / g.records,
+      avgSetting: g.settingRecords > 0 ? settingSum / g.settingRecords : NaN,
+    }))
+    // 未入力は末尾に
+    .sort((a, b) =>
+      Number(a.key === UNKNOWN) - Number(b.key === UNKNOWN) ||
+      (typeof a.order === "number" && typeof b.order === "number"
+        ? a.order - b.order
+        : String(a.order).localeCompare(String(b.order), "ja", { numeric: true }))
+    );
+}
+
+/* -----------------------
+   グラフに出す指標
+----------------------- */
+export type Metric = "grapeProb" | "combinedProb" | "bigProb" | "regProb" | "avgSetting" | "avgDiff";
+
+// lowerIsBetter: 確率（分母）は小さいほど良い
+export const METRICS: Record<Metric, { label: string; lowerIsBetter: boolean }> = {
+  grapeProb: { label: "ぶどう確率", lowerIsBetter: true },
+  combinedProb: { label: "合算確率", lowerIsBetter: true },
+  bigProb: { label: "BIG確率", lowerIsBetter: true },
+  regProb: { label: "REG確率", lowerIsBetter: true },
+  avgSetting: { label: "平均期待設定", lowerIsBetter: false },
+  avgDiff: { label: "平均差枚", lowerIsBetter: false },
+};
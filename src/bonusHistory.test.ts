@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { parseBonusHistory } from "./bonusHistory.ts";
+
+describe("parseBonusHistory", () => {
+  it("見出し行の並びで数字を割り当てる", () => {
+    expect(parseBonusHistory("回数 スタート 出玉\n1 245 312\n2 88 104").entries).toEqual([
+      { start: 245, kind: "big", time: undefined, payout: 312, guessed: true },
+      { start: 88, kind: "reg", time: undefined, payout: 104, guessed: true },
+    ]);
+  });
+  it("桁区切りのカンマでスタートを分けない", () => {
+    expect(parseBonusHistory("回数 スタート 出玉\n1 1,024 312").entries).toEqual([
+      { start: 1024, kind: "big", time: undefined, payout: 312, guessed: true },
+    ]);
+  });
+});
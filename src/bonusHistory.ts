@@ -0,0 +1,237 @@
+import { trySetItem } from "./format.ts";
+import { normalizeOcrText } from "./ocrParse.ts";
+
+/* -----------------------
+   大当たり履歴（ボーナスごとのスタート・種別・時刻・出玉）
+   貼り付け・OCR のテキストから読み取り、合計・ハマり・区間ごとの確率を出す
+----------------------- */
+const DRAFT_KEY = "jug-ocr-v1.2:bonusHistory";
+
+export type BonusKind = "big" | "reg";
+
+export type BonusEntry = {
+  // 前のボーナス（または打ち始め）からの G 数
+  start: number;
+  kind: BonusKind;
+  // 「14:23」
+  time?: string;
+  payout?: number;
+  // 種別の表示が無く、出玉から推定した
+  guessed?: boolean;
+};
+
+export type HistoryParse = {
+  // 古い順
+  entries: BonusEntry[];
+  // 数字はあるが読めなかった行
+  skipped: string[];
+  // 新しい順に並んでいたので並べ替えた
+  reversed: boolean;
+};
+
+type Column = "index" | "start" | "payout";
+
+const KIND_PATTERNS: [BonusKind, RegExp][] = [
+  ["big", /(bb|big|ビッグ)/],
+  ["reg", /(rb|reg|レギュラー)/],
+];
+// 見出し行の項目名（数字の列の並び順を決める）
+const HEADER_LABELS: [Column, RegExp][] = [
+  ["index", /(回数|no\.?|番号)/],
+  ["start", /(スタート|ゲーム数?|g数|回転数?|ハマり)/],
+  ["payout", /(出玉|獲得|払出し?|払い出し|枚数)/],
+];
+const TIME = /(\d{1,2}):(\d{2})/;
+// 日付（「10/19」）は数字として数えない
+const DATE = /\d{1,2}\/\d{1,2}/g;
+// ありえる値の上限（これを超えたら読み違いとみなして行を飛ばす）
+const MAX_START = 9999;
+const MAX_PAYOUT = 999;
+// 種別の表示が無いときの BIG/REG の境目（出玉）
+export const DEFAULT_PAYOUT_SPLIT = 170;
+
+// 見出し行なら数字の列の並び（無ければ null）
+function headerColumns(line: string): Column[] | null {
+  if (/\d/.test(line.replace(TIME, ""))) return null;
+  const found = HEADER_LABELS
+    .map(([col, re]) => ({ col, at: line.search(re) }))
+    .filter(h => h.at >= 0)
+    .sort((a, b) => a.at - b.at);
+  return found.some(h => h.col === "start") ? found.map(h => h.col) : null;
+}
+
+type Row = { line: string; numbers: number[]; kind?: BonusKind; time?: string };
+
+function splitRow(raw: string): Row | null {
+  // 「1,024」の桁区切りは、正規化でカンマが空白になる前につなげる
+  const line = normalizeOcrText(raw.replace(/(\d),(?=\d{3}\b)/g, "$1")).trim();
+  const time = line.match(TIME);
+  const rest = line.replace(TIME, " ").replace(DATE, " ");
+  const numbers = (rest.match(/\d+/g) ?? []).map(Number);
+  if (numbers.length === 0) return null;
+  const kind = KIND_PATTERNS.find(([, re]) => re.test(rest))?.[0];
+  return {
+    line: raw.trim(),
+    numbers,
+    kind,
+    time: time ? `${time[1].padStart(2, "0")}:${time[2]}` : undefined,
+  };
+}
+
+// 先頭の数字が 1 ずつ増える（減る）通し番号か
+function leadingIndex(rows: Row[]): "asc" | "desc" | null {
+  if (rows.length < 2 || rows.some(r => r.numbers.length < 2)) return null;
+  const first = rows.map(r => r.numbers[0]);
+  if (first.every((n, i) => i === 0 || n === first[i - 1] + 1)) return "asc";
+  if (first.every((n, i) => i === 0 || n === first[i - 1] - 1)) return "desc";
+  return null;
+}
+
+// 時刻が新しい順に並んでいるか（日をまたぐことは考えない）
+function timesDescending(rows: Row[]) {
+  const times = rows.map(r => r.time).filter((t): t is string => t != null);
+  if (times.length < 2) return false;
+  let desc = 0, asc = 0;
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] < times[i - 1]) desc++;
+    else if (times[i] > times[i - 1]) asc++;
+  }
+  return desc > asc;
+}
+
+/**
+ * 大当たり履歴のテキストを読み取る（1 行 1 回）。
+ * 見出し行があればその並びで数字を割り当て、無ければ「通し番号・スタート・出玉」の順とみなす。
+ * 種別の表示が無い行は出玉が payoutSplit 以上なら BIG、未満なら REG とする。
+ */
+export function parseBonusHistory(text: string, payoutSplit = DEFAULT_PAYOUT_SPLIT): HistoryParse {
+  let columns: Column[] | null = null;
+  const rows: Row[] = [];
+  for (const raw of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const header = headerColumns(normalizeOcrText(raw));
+    if (header) {
+      columns = header;
+      continue;
+    }
+    const row = splitRow(raw);
+    if (row) rows.push(row);
+  }
+
+  const index = columns ? null : leadingIndex(rows);
+  const order: Column[] = columns ?? (index ? ["index", "start", "payout"] : ["start", "payout"]);
+  const entries: BonusEntry[] = [];
+  const skipped: string[] = [];
+  for (const row of rows) {
+    const at = (c: Column) => {
+      const i = order.indexOf(c);
+      return i >= 0 ? row.numbers[i] : undefined;
+    };
+    const start = at("start");
+    const payout = at("payout");
+    if (start == null || start > MAX_START || (payout != null && payout > MAX_PAYOUT)) {
+      skipped.push(row.line);
+      continue;
+    }
+    const kind = row.kind ?? (payout != null ? (payout >= payoutSplit ? "big" : "reg") : undefined);
+    if (!kind) {
+      skipped.push(row.line);
+      continue;
+    }
+    entries.push({ start, kind, time: row.time, payout, guessed: row.kind == null || undefined });
+  }
+
+  const reversed = columns?.includes("index")
+    ? leadingIndex(rows) === "desc"
+    : index === "desc" || (index == null && timesDescending(rows));
+  if (reversed) entries.reverse();
+  return { entries, skipped, reversed };
+}
+
+/* -----------------------
+   集計
+----------------------- */
+export type HistorySegment = { G: number; big: number; reg: number };
+
+export type HamariBin = {
+  lo: number;
+  // 最後の区間は上限なし
+  hi: number | null;
+  big: number;
+  reg: number;
+};
+
+export type HistorySummary = {
+  totals: HistorySegment;
+  hamari: HamariBin[];
+  // 一番長いハマり（index が null なら最後のボーナス後の現在のハマり）
+  longest: { g: number; index: number | null } | null;
+  // ボーナス間の平均 G
+  average: number;
+};
+
+// ハマりの区切り（G）
+export const HAMARI_STEP = 100;
+export const HAMARI_MAX = 1000;
+
+export function segmentOf(entries: BonusEntry[], tailG = 0): HistorySegment {
+  return {
+    G: entries.reduce((a, e) => a + e.start, 0) + tailG,
+    big: entries.filter(e => e.kind === "big").length,
+    reg: entries.filter(e => e.kind === "reg").length,
+  };
+}
+
+/**
+ * 合計・ハマりの分布・最大ハマりをまとめる。tailG は最後のボーナス後に回した G。
+ */
+export function summarizeHistory(entries: BonusEntry[], tailG = 0): HistorySummary {
+  const hamari: HamariBin[] = [];
+  for (let lo = 0; lo < HAMARI_MAX; lo += HAMARI_STEP) hamari.push({ lo, hi: lo + HAMARI_STEP - 1, big: 0, reg: 0 });
+  hamari.push({ lo: HAMARI_MAX, hi: null, big: 0, reg: 0 });
+  for (const e of entries) {
+    const bin = hamari[Math.min(hamari.length - 1, Math.floor(e.start / HAMARI_STEP))];
+    bin[e.kind]++;
+  }
+
+  let longest: HistorySummary["longest"] = null;
+  for (const [i, e] of entries.entries()) {
+    if (!longest || e.start > longest.g) longest = { g: e.start, index: i };
+  }
+  if (tailG > 0 && (!longest || tailG > longest.g)) longest = { g: tailG, index: null };
+
+  return {
+    totals: segmentOf(entries, tailG),
+    hamari,
+    longest,
+    average: entries.length > 0 ? entries.reduce((a, e) => a + e.start, 0) / entries.length : NaN,
+  };
+}
+
+/**
+ * from 回目（0 始まり）の当たりの前で分ける。
+ * 前半は from-1 回目の当たりまで、後半は from 回目のスタートから最後のボーナス後の G まで。
+ */
+export function splitHistory(entries: BonusEntry[], tailG: number, from: number) {
+  return {
+    before: segmentOf(entries.slice(0, from)),
+    after: segmentOf(entries.slice(from), tailG),
+  };
+}
+
+/* -----------------------
+   入力途中の履歴（localStorage）
+----------------------- */
+export type HistoryDraft = { text: string; tailG: string };
+
+export function loadHistoryDraft(): HistoryDraft {
+  try {
+    const raw = localStorage.getItem(DRAFT_KEY);
+    const v = raw ? JSON.parse(raw) : {};
+    return { text: typeof v.text === "string" ? v.text : "", tailG: typeof v.tailG === "string" ? v.tailG : "" };
+  } catch {
+    return { text: "", tailG: "" };
+  }
+}
+export function saveHistoryDraft(draft: HistoryDraft) {
+  trySetItem(DRAFT_KEY, JSON.stringify(draft));
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { calcForward, calcResultByCapture, type Premise } from "./calc.ts";
+
+const premise: Premise = {
+  replay: 7.298, cherry: 36, bell: 1024, piero: 1024,
+  bigAvg: 239.25, regAvg: 95.25, cherryPay: 2, bellPay: 14, pieroPay: 10,
+};
+const capture = { cherry: 1, bell: 0, piero: 0 };
+const probs = { big: 240, reg: 270, grape: 5.8, bigCherry: 1200, regCherry: 900 };
+
+describe("calcForward", () => {
+  it("チェリー重複の払い出しも逆算と同じ前提で数える", () => {
+    const G = 8000;
+    const f = calcForward(G, probs, premise, capture);
+    // 期待どおりに引けたときの入力を逆算すると、ぶどうの分母がそのまま戻る
+    const back = calcResultByCapture({
+      G,
+      big: G / probs.big,
+      reg: G / probs.reg,
+      diff: f.diff,
+      bigCherry: G / probs.bigCherry,
+      regCherry: G / probs.regCherry,
+    }, premise, capture);
+    expect(back.grapeProb).toBeCloseTo(probs.grape, 6);
+  });
+
+  it("重複の分母が無ければ重複分は足さない", () => {
+    const without = calcForward(8000, { big: 240, reg: 270, grape: 5.8 }, premise, capture);
+    const withOverlap = calcForward(8000, probs, premise, capture);
+    expect(withOverlap.diff - without.diff).toBeCloseTo(8000 * (1 / 1200 + 1 / 900) * premise.cherryPay, 6);
+  });
+});
@@ -0,0 +1,273 @@
+/* -----------------------
+   ぶどう逆算の計算コア
+----------------------- */
+
+// 前提（小役分母・払い出し・ボーナス平均枚数）
+export type Premise = {
+  replay: number;
+  cherry: number;
+  bell: number;
+  piero: number;
+  bigAvg: number;
+  regAvg: number;
+  cherryPay: number;
+  bellPay: number;
+  pieroPay: number;
+  // ぶどう（設定差のある小役）の払い出し。無ければ GRAPE_PAY
+  grapePay?: number;
+};
+
+export const GRAPE_PAY = 8;
+export const grapePayOf = (premise: Premise) => premise.grapePay ?? GRAPE_PAY;
+
+export type Capture = { cherry: number; bell: number; piero: number };
+
+// BIG・REG の単独/チェリー重複の内訳
+export const SPLIT_KEYS = ["bigSolo", "bigCherry", "regSolo", "regCherry"] as const;
+export type SplitKey = (typeof SPLIT_KEYS)[number];
+
+export type CaptureInput = {
+  G: number;
+  big: number;
+  reg: number;
+  diff: number;
+} & Partial<Record<SplitKey, number>>; // 内訳は分かるときだけ（片方だけなら残りは合計との差）
+
+// 入力から内訳だけ取り出す（履歴の編集などで引き継ぐ用）
+export function splitOf(input?: Partial<CaptureInput>): Partial<Record<SplitKey, number>> {
+  const out: Partial<Record<SplitKey, number>> = {};
+  for (const k of SPLIT_KEYS) {
+    if (input?.[k] != null) out[k] = input[k];
+  }
+  return out;
+}
+
+// チェリー重複の回数。内訳が無ければ undefined
+export function cherryOverlap(input: CaptureInput, kind: "big" | "reg"): number | undefined {
+  const cherry = kind === "big" ? input.bigCherry : input.regCherry;
+  const solo = kind === "big" ? input.bigSolo : input.regSolo;
+  if (cherry != null) return cherry;
+  if (solo != null) return Math.max(0, input[kind] - solo);
+  return undefined;
+}
+
+/* -----------------------
+   打法ごとの取得率
+----------------------- */
+export const STRATEGIES = [
+  { key: "random",   label: "適当打ち",         capture: { cherry: 0.667, bell: 0.1,  piero: 0.05 } },
+  { key: "cherry90", label: "チェリー狙い(90%)", capture: { cherry: 0.90,  bell: 0.05, piero: 0.01 } },
+  { key: "cherry100",label: "チェリー狙い(100%)",capture: { cherry: 1.00,  bell: 0.00, piero: 0.00 } },
+  { key: "full",     label: "完全攻略",         capture: { cherry: 1.00,  bell: 1.00, piero: 1.00 } },
+] as const;
+
+/* -----------------------
+   誤差の前提
+----------------------- */
+// ボーナス1回あたりの獲得枚数のばらつき（標準偏差）
+export const BIG_PAY_SD = 8;
+export const REG_PAY_SD = 4;
+// 表示差枚の丸め（±1枚の一様誤差）
+const DIFF_ROUND_VAR = 1 / 3;
+// これ未満の回転数は結果をほぼ参考にできない
+export const MIN_RELIABLE_G = 1000;
+// 95%区間の分母幅がこれを超えたら注意を出す
+export const WIDE_INTERVAL_WIDTH = 1.0;
+
+const Z = { 90: 1.645, 95: 1.96 } as const;
+export type ConfidenceLevel = keyof typeof Z;
+
+// 区間（確率は分母表記で lo ≦ hi）
+export type Interval = { lo: number; hi: number };
+export type GrapeInterval = { count: Interval; prob: Interval };
+
+export type CaptureResult = {
+  grapesCount: number;
+  // 0 で切る前の逆算回数（マイナスなら入力か取得率が合っていない）
+  grapesCountRaw: number;
+  grapeProb: number;
+  // 逆算回数の標準偏差
+  countSd: number;
+  ci: Record<ConfidenceLevel, GrapeInterval>;
+};
+
+function binomVar(n: number, p: number) {
+  if (!(n > 0) || !(p > 0)) return 0;
+  const q = Math.min(p, 1);
+  return n * q * (1 - q);
+}
+
+/**
+ * 差枚からぶどう回数を逆算する。
+ * 前提のチェリー分母は単独チェリーとして扱い、チェリー重複ボーナスの回数が分かるときは
+ * その分のチェリー払い出しを取得率に応じて足す。
+ * 回数の区間は逆算そのものの誤差（小役・リプレイの揺らぎ、ボーナス獲得枚数、差枚の丸め）、
+ * 確率の区間はそれに加えてぶどう抽選自体の揺らぎを含めた「真の確率」の区間。
+ */
+export function calcResultByCapture(
+  input: CaptureInput,
+  premise: Premise,
+  capture: Capture,
+): CaptureResult {
+  const { G: g, big: B, reg: R, diff: D } = input;
+  const overlap = (cherryOverlap(input, "big") ?? 0) + (cherryOverlap(input, "reg") ?? 0);
+  const { replay, cherry, bell, piero, bigAvg, regAvg, cherryPay, bellPay, pieroPay } = premise;
+
+  const coinIn = 3 * g - 3 * (g / replay);
+  const outBigReg = B * bigAvg + R * regAvg;
+  const outOthers =
+    ((g / cherry) + overlap) * cherryPay * capture.cherry +
+    (g / bell) * bellPay   * capture.bell   +
+    (g / piero) * pieroPay * capture.piero;
+  const outKnown = outBigReg + outOthers;
+
+  const grapePay = grapePayOf(premise);
+  const grapesCountRaw = (D + coinIn - outKnown) / grapePay;
+  const grapesCount = Math.max(0, grapesCountRaw);
+  const grapeProb = grapesCount > 0 ? g / grapesCount : Infinity;
+
+  // 枚数ベースの分散 → ぶどうの払い出しで割って回数の分散へ
+  const coinVar =
+    9 * binomVar(g, 1 / replay) +
+    cherryPay ** 2 * binomVar(g, capture.cherry / cherry) +
+    cherryPay ** 2 * binomVar(overlap, capture.cherry) +
+    bellPay ** 2   * binomVar(g, capture.bell / bell) +
+    pieroPay ** 2  * binomVar(g, capture.piero / piero) +
+    B * BIG_PAY_SD ** 2 +
+    R * REG_PAY_SD ** 2 +
+    DIFF_ROUND_VAR;
+  const countVar = coinVar / grapePay ** 2;
+  const countSd = Math.sqrt(countVar);
+
+  const p = g > 0 ? Math.min(grapesCount / g, 1) : 0;
+  const probSd = g > 0 ? Math.sqrt(countVar + binomVar(g, p)) / g : Infinity;
+
+  const interval = (level: ConfidenceLevel): GrapeInterval => {
+    const z = Z[level];
+    const pLo = p - z * probSd;
+    const pHi = p + z * probSd;
+    return {
+      count: {
+        lo: Math.max(0, grapesCount - z * countSd),
+        hi: grapesCount + z * countSd,
+      },
+      prob: {
+        lo: pHi > 0 ? 1 / pHi : Infinity,
+        hi: pLo > 0 ? 1 / pLo : Infinity,
+      },
+    };
+  };
+
+  return {
+    grapesCount,
+    grapesCountRaw,
+    grapeProb,
+    countSd,
+    ci: { 90: interval(90), 95: interval(95) },
+  };
+}
+
+/* -----------------------
+   信頼度の警告
+----------------------- */
+export type ReliabilityWarning = { level: "danger" | "warn"; message: string };
+
+export function reliabilityWarning(g: number, res: CaptureResult): ReliabilityWarning | null {
+  if (!(g > 0)) return null;
+  if (g < MIN_RELIABLE_G) {
+    return {
+      level: "danger",
+      message: `総回転数が${MIN_RELIABLE_G.toLocaleString()}G未満のため、逆算結果はほぼ参考になりません。`,
+    };
+  }
+  const { lo, hi } = res.ci[95].prob;
+  if (!isFinite(hi) || hi - lo > WIDE_INTERVAL_WIDTH) {
+    return {
+      level: "warn",
+      message: "95%区間の幅が広く、ぶどう確率から設定を判断するには回転数が足りません。",
+    };
+  }
+  return null;
+}
+
+/* -----------------------
+   順算（設定・確率 → 差枚と機械割）
+   逆算と同じ前提（リプレイ・小役の払い出し・ボーナス平均枚数）で 1G あたりの収支を組み立てる
+----------------------- */
+
+// 順算に使う確率（分母）。bigCherry/regCherry はうちチェリー重複の分母（分かる機種だけ）
+export type ForwardProbs = { big: number; reg: number; grape: number; bigCherry?: number; regCherry?: number };
+
+export type ForwardResult = {
+  // 期待差枚と標準偏差
+  diff: number;
+  diffSd: number;
+  // 機械割（払い出し ÷ 投入。スペック表と同じくリプレイも 3 枚投入・3 枚払い出しとして数える）
+  payout: number;
+  coinIn: number;
+  coinOut: number;
+  ci: Record<ConfidenceLevel, Interval>;
+};
+
+export function calcForward(
+  g: number,
+  probs: ForwardProbs,
+  premise: Premise,
+  capture: Capture,
+): ForwardResult {
+  const { replay, cherry, bell, piero, bigAvg, regAvg, cherryPay, bellPay, pieroPay } = premise;
+
+  // チェリー重複ボーナスは逆算と同じく、取れたときだけボーナスにチェリーの払い出しが乗る
+  const rate = (d: number | undefined) => (d != null && isFinite(d) && d > 0 ? 1 / d : 0);
+  const bigCherryHit = Math.min(rate(probs.bigCherry), rate(probs.big)) * capture.cherry;
+  const regCherryHit = Math.min(rate(probs.regCherry), rate(probs.reg)) * capture.cherry;
+
+  // 1G ごとの払い出し（役は排他、取りこぼしは 0 枚）
+  const outcomes: [prob: number, pay: number][] = [
+    [1 / probs.big - bigCherryHit, bigAvg],
+    [bigCherryHit, bigAvg + cherryPay],
+    [1 / probs.reg - regCherryHit, regAvg],
+    [regCherryHit, regAvg + cherryPay],
+    [1 / probs.grape, grapePayOf(premise)],
+    [capture.cherry / cherry, cherryPay],
+    [capture.bell / bell, bellPay],
+    [capture.piero / piero, pieroPay],
+  ].map(([p, pay]) => [isFinite(p) && p > 0 ? p : 0, pay]);
+  const pReplay = 1 / replay;
+
+  // 1G あたりの純増 Y = 払い出し − 投入（リプレイは 0）
+  const bet = 3;
+  let mean = -bet * (1 - pReplay);
+  let sq = 0;
+  let pOther = 1 - pReplay;
+  for (const [p, pay] of outcomes) {
+    mean += p * pay;
+    sq += p * (pay - bet) ** 2;
+    pOther -= p;
+  }
+  sq += Math.max(0, pOther) * bet ** 2;
+  const perGameVar = Math.max(0, sq - mean ** 2);
+
+  const coinIn = g * bet;
+  const diff = g * mean;
+  const coinOut = coinIn + diff;
+  const diffVar =
+    g * perGameVar +
+    (g / probs.big) * BIG_PAY_SD ** 2 +
+    (g / probs.reg) * REG_PAY_SD ** 2;
+  const diffSd = Math.sqrt(Math.max(0, diffVar));
+
+  const interval = (level: ConfidenceLevel): Interval => ({
+    lo: diff - Z[level] * diffSd,
+    hi: diff + Z[level] * diffSd,
+  });
+
+  return {
+    diff,
+    diffSd,
+    payout: coinIn > 0 ? coinOut / coinIn : NaN,
+    coinIn,
+    coinOut,
+    ci: { 90: interval(90), 95: interval(95) },
+  };
+}
@@ -0,0 +1,111 @@
+import type { Premise } from "./calc.ts";
+import { trySetItem } from "./format.ts";
+
+/* -----------------------
+   小役カウンター（実戦で自分で数える。localStorage に保存）
+----------------------- */
+const COUNTER_KEY = "jug-ocr-v1.2:counter";
+// 取り消しで戻れる回数
+const MAX_UNDO = 500;
+
+export const COUNTER_KEYS = [
+  "grape", "cherryCorner", "cherryMiddle", "bell", "piero", "replay", "big", "reg",
+] as const;
+export type CounterKey = (typeof COUNTER_KEYS)[number];
+
+export const COUNTER_LABELS: Record<CounterKey, string> = {
+  grape: "ぶどう",
+  cherryCorner: "角チェリー",
+  cherryMiddle: "中段チェリー",
+  bell: "ベル",
+  piero: "ピエロ",
+  replay: "リプレイ",
+  big: "BIG",
+  reg: "REG",
+};
+
+export type CounterCounts = Record<CounterKey, number> & { G: number };
+
+export type CounterSession = {
+  startedAt: number;
+  counts: CounterCounts;
+  // 取り消し用の操作履歴（新しいものが末尾）
+  undo: { key: CounterKey | "G"; delta: number }[];
+};
+
+export function emptyCounts(): CounterCounts {
+  return { G: 0, grape: 0, cherryCorner: 0, cherryMiddle: 0, bell: 0, piero: 0, replay: 0, big: 0, reg: 0 };
+}
+
+export function newCounterSession(): CounterSession {
+  return { startedAt: Date.now(), counts: emptyCounts(), undo: [] };
+}
+
+export function loadCounterSession(): CounterSession {
+  try {
+    const raw = localStorage.getItem(COUNTER_KEY);
+    if (!raw) return newCounterSession();
+    const s = JSON.parse(raw) as Partial<CounterSession>;
+    return {
+      startedAt: typeof s.startedAt === "number" ? s.startedAt : Date.now(),
+      counts: { ...emptyCounts(), ...s.counts },
+      undo: Array.isArray(s.undo) ? s.undo : [],
+    };
+  } catch {
+    return newCounterSession();
+  }
+}
+export function saveCounterSession(s: CounterSession) {
+  trySetItem(COUNTER_KEY, JSON.stringify(s));
+}
+
+// 数える（0 未満にはしない。実際に動いた分だけ取り消し履歴に積む）
+export function addCount(s: CounterSession, key: CounterKey | "G", delta: number): CounterSession {
+  const cur = s.counts[key];
+  const next = Math.max(0, cur + delta);
+  if (next === cur) return s;
+  const undo = [...s.undo, { key, delta: next - cur }].slice(-MAX_UNDO);
+  return { ...s, counts: { ...s.counts, [key]: next }, undo };
+}
+
+export function undoCount(s: CounterSession): CounterSession {
+  const last = s.undo[s.undo.length - 1];
+  if (!last) return s;
+  return {
+    ...s,
+    counts: { ...s.counts, [last.key]: Math.max(0, s.counts[last.key] - last.delta) },
+    undo: s.undo.slice(0, -1),
+  };
+}
+
+/* -----------------------
+   実測確率（分母）と前提との比較
+----------------------- */
+export type CounterRow = {
+  key: CounterKey | "cherry";
+  label: string;
+  count: number;
+  // 実測の分母（G / 回数）
+  prob: number;
+  // 前提の分母（前提に無い役は null）
+  premiseProb: number | null;
+};
+
+export function counterRows(counts: CounterCounts, premise: Premise): CounterRow[] {
+  const g = counts.G;
+  const prob = (n: number) => (g > 0 && n > 0 ? g / n : Infinity);
+  const row = (key: CounterRow["key"], label: string, count: number, premiseProb: number | null): CounterRow =>
+    ({ key, label, count, prob: prob(count), premiseProb });
+  const cherry = counts.cherryCorner + counts.cherryMiddle;
+  return [
+    row("grape", COUNTER_LABELS.grape, counts.grape, null),
+    row("cherry", "チェリー合算", cherry, premise.cherry),
+    row("cherryCorner", COUNTER_LABELS.cherryCorner, counts.cherryCorner, null),
+    row("cherryMiddle", COUNTER_LABELS.cherryMiddle, counts.cherryMiddle, null),
+    row("bell", COUNTER_LABELS.bell, counts.bell, premise.bell),
+    row("piero", COUNTER_LABELS.piero, counts.piero, premise.piero),
+    row("replay", COUNTER_LABELS.replay, counts.replay, premise.replay),
+    row("big", COUNTER_LABELS.big, counts.big, null),
+    row("reg", COUNTER_LABELS.reg, counts.reg, null),
+  ];
+}
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadCustomPresets, parsePreset } from "./customPresets.ts";
+
+const premise = {
+  replay: 7.298, cherry: 36, bell: 1024, piero: 1024,
+  bigAvg: 239.25, regAvg: 95.25, cherryPay: 2, bellPay: 14, pieroPay: 10,
+};
+
+function stubStorage(value: unknown) {
+  const text = JSON.stringify(value);
+  vi.stubGlobal("localStorage", { getItem: () => text, setItem: () => {} });
+}
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe("parsePreset", () => {
+  it("入力欄の文字列は数値に直す", () => {
+    const r = parsePreset({ name: "自分用", ...premise, replay: "7.3", bellPay: "14" });
+    expect(r).toMatchObject({ name: "自分用", preset: { replay: 7.3, bellPay: 14 } });
+  });
+
+  it("数字でない前提は理由を返す", () => {
+    expect(parsePreset({ name: "自分用", ...premise, cherry: "abc" })).toBe("自分用: cherry が正の数ではありません");
+  });
+});
+
+describe("loadCustomPresets", () => {
+  it("保存済みの不正な機種は飛ばし、文字列の数字は数値に直す", () => {
+    stubStorage({
+      "よい台": { ...premise, regAvg: "95.25" },
+      "壊れた台": { ...premise, replay: "" },
+    });
+    const presets = loadCustomPresets();
+    expect(Object.keys(presets)).toEqual(["よい台"]);
+    expect(presets["よい台"].regAvg).toBe(95.25);
+  });
+});
@@ -0,0 +1,135 @@
+import type { Premise } from "./calc.ts";
+import { downloadBlob, trySetItem } from "./format.ts";
+import { isBuiltinPreset, type MachinePreset, type PresetMap, type SettingTable } from "./presets.ts";
+
+/* -----------------------
+   カスタムプリセット（localStorage）
+----------------------- */
+const CUSTOM_PRESETS_KEY = "jug-ocr-v1.2:presets";
+const EXPORT_VERSION = 1;
+
+const PREMISE_KEYS: (keyof Premise)[] = [
+  "replay", "cherry", "bell", "piero", "bigAvg", "regAvg", "cherryPay", "bellPay", "pieroPay",
+];
+const SETTING_KEYS = ["big", "reg", "grape"] as const;
+// 無くてもよい設定差（単独/チェリー重複の重複側の分母）
+const OPTIONAL_SETTING_KEYS = ["bigCherry", "regCherry"] as const;
+
+// 保存済みのものも parsePreset で確かめ、読めない機種は飛ばす
+export function loadCustomPresets(): PresetMap {
+  try {
+    const raw = localStorage.getItem(CUSTOM_PRESETS_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : {};
+    if (typeof data !== "object" || data == null) return {};
+    const presets: PresetMap = {};
+    for (const [name, v] of Object.entries(data)) {
+      const r = parsePreset(typeof v === "object" && v != null ? { ...v, name } : v);
+      if (typeof r !== "string") presets[r.name] = r.preset;
+    }
+    return presets;
+  } catch {
+    return {};
+  }
+}
+export function saveCustomPresets(presets: PresetMap) {
+  trySetItem(CUSTOM_PRESETS_KEY, JSON.stringify(presets));
+}
+
+// 名前の検証（空・組み込みと同名・重複を弾く）。問題なければ null
+export function validatePresetName(name: string, custom: PresetMap, allowExisting = false) {
+  const n = name.trim();
+  if (!n) return "名前を入力してください";
+  if (isBuiltinPreset(n)) return "組み込みの機種名と同じ名前は使えません";
+  if (!allowExisting && custom[n]) return `「${n}」は既にあります`;
+  return null;
+}
+
+// 「◯◯ のコピー」「◯◯ のコピー2」… で空いている名前
+export function copyName(name: string, custom: PresetMap) {
+  const base = `${name} のコピー`;
+  if (!custom[base] && !isBuiltinPreset(base)) return base;
+  for (let i = 2; ; i++) {
+    const n = `${base}${i}`;
+    if (!custom[n] && !isBuiltinPreset(n)) return n;
+  }
+}
+
+/* -----------------------
+   JSON 入出力
+----------------------- */
+export function exportCustomPresetsJson(presets: PresetMap) {
+  const body = {
+    version: EXPORT_VERSION,
+    presets: Object.entries(presets).map(([name, p]) => ({ name, ...p })),
+  };
+  const blob = new Blob([JSON.stringify(body, null, 2)], { type: "application/json" });
+  downloadBlob(blob, `jug-ocr-presets-${new Date().toISOString().slice(0, 10)}.json`);
+}
+
+// 名前と前提（文字列の数字は数値に直す）を検証する。問題があれば理由を返す
+export function parsePreset(v: unknown): { name: string; preset: MachinePreset } | string {
+  if (typeof v !== "object" || v == null) return "オブジェクトではありません";
+  const o = v as Record<string, unknown>;
+  const name = typeof o.name === "string" ? o.name.trim() : "";
+  if (!name) return "name がありません";
+
+  const preset = {} as MachinePreset;
+  for (const k of PREMISE_KEYS) {
+    const n = Number(o[k]);
+    // 払い出しは 0 枚もある（使わない役）
+    const pay = k.endsWith("Pay");
+    if (pay ? !(n >= 0) : !(n > 0)) return `${name}: ${k} が${pay ? "0 以上" : "正"}の数ではありません`;
+    preset[k] = n;
+  }
+  if (o.grapePay != null) {
+    const n = Number(o.grapePay);
+    if (!(n > 0)) return `${name}: grapePay が正の数ではありません`;
+    preset.grapePay = n;
+  }
+  if (o.settings != null) {
+    const s = o.settings as Record<string, unknown>;
+    const settings = {} as Record<keyof SettingTable, number[]>;
+    const isTable = (arr: unknown): arr is unknown[] =>
+      Array.isArray(arr) && arr.length === 6 && arr.every(x => Number(x) > 1);
+    for (const k of SETTING_KEYS) {
+      const arr = s[k];
+      if (!isTable(arr)) return `${name}: settings.${k} は設定1〜6の分母6個が必要です`;
+      settings[k] = arr.map(Number);
+    }
+    for (const k of OPTIONAL_SETTING_KEYS) {
+      const arr = s[k];
+      if (arr == null) continue;
+      if (!isTable(arr)) return `${name}: settings.${k} は設定1〜6の分母6個が必要です`;
+      settings[k] = arr.map(Number);
+    }
+    preset.settings = settings;
+  }
+  return { name, preset };
+}
+
+export type PresetImportResult = { presets: PresetMap; errors: string[] };
+
+/**
+ * エクスポートした JSON（{ version, presets: [...] }）を読み込む。
+ * 組み込み機種と同名のものや不正なものは取り込まずに理由を返す。
+ */
+export async function importCustomPresetsJson(file: File): Promise<PresetImportResult> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    return { presets: {}, errors: ["JSON として読めません"] };
+  }
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown })?.presets;
+  if (!Array.isArray(list)) return { presets: {}, errors: ["presets 配列が見つかりません"] };
+
+  const presets: PresetMap = {};
+  const errors: string[] = [];
+  list.forEach((v, i) => {
+    const r = parsePreset(v);
+    if (typeof r === "string") errors.push(`${i + 1}件目: ${r}`);
+    else if (isBuiltinPreset(r.name)) errors.push(`${i + 1}件目: 「${r.name}」は組み込みの機種名です`);
+    else presets[r.name] = r.preset;
+  });
+  return { presets, errors };
+}
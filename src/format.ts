@@ -0,0 +1,55 @@
+import type { Interval } from "./calc.ts";
+
+/* -----------------------
+   共通ユーティリティ
+----------------------- */
+export function numberOr(val: unknown, fallback: number) {
+  const n = typeof val === "number" ? val : parseFloat(String(val ?? "").replace(/,/g, ""));
+  return isFinite(n) ? n : fallback;
+}
+export function formatInt(n: number) {
+  if (!isFinite(n)) return "-";
+  return Math.round(n).toLocaleString();
+}
+export function formatProb(x: number) {
+  if (!isFinite(x) || x <= 0) return "-";
+  return `1/${x.toFixed(2)}`;
+}
+export function formatProbRange(r: Interval) {
+  return `${formatProb(r.lo)}〜${isFinite(r.hi) ? formatProb(r.hi) : "∞"}`;
+}
+export function formatIntRange(r: Interval) {
+  return `${formatInt(r.lo)}〜${formatInt(r.hi)}`;
+}
+export function formatPercent(x: number, digits = 1) {
+  if (!isFinite(x)) return "-";
+  return `${(x * 100).toFixed(digits)}%`;
+}
+// 2025/01/31 21:05 形式（ローカル時刻）
+export function formatDateTime(ms: number) {
+  if (!isFinite(ms)) return "-";
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}/${pad(d.getMonth() + 1)}/${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+// Blob をファイルとして保存（ダウンロード）させる
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// localStorage に書く（書けなければ諦める）
+export function trySetItem(key: string, value: string) {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // 容量超過・プライベートブラウズでは保存せずに続ける
+  }
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { buildHistoryRow, filterHistory } from "./history.ts";
+import { PRESETS } from "./presets.ts";
+
+const MODEL = "マイジャグラーV";
+const input = { G: 5000, big: 20, reg: 18, diff: 600 };
+
+describe("filterHistory", () => {
+  it("日付の絞り込みは打った日で比べる", () => {
+    // 10/19 に保存した 10/18 の履歴
+    const row = buildHistoryRow(MODEL, input, PRESETS[MODEL], {
+      createdAt: new Date(2026, 9, 19, 1, 0).getTime(),
+      playDate: "2026-10-18",
+    });
+    expect(filterHistory([row], { from: "2026-10-18", to: "2026-10-18" })).toEqual([row]);
+    expect(filterHistory([row], { from: "2026-10-19" })).toEqual([]);
+  });
+});
@@ -0,0 +1,216 @@
+import { STRATEGIES, calcResultByCapture, type CaptureInput, type Premise } from "./calc.ts";
+import { formatProb, formatProbRange } from "./format.ts";
+import type { CounterCounts } from "./counter.ts";
+
+/* -----------------------
+   履歴（IndexedDB に保存、件数上限なし）
+----------------------- */
+const DB_NAME = "jug-ocr-v1.2";
+const DB_VERSION = 1;
+const STORE = "history";
+// 旧バージョン（localStorage、最大10件）の保存先
+const LEGACY_HISTORY_KEY = "jug-ocr-v1.2:history";
+
+export type HistoryRow = {
+  id: string;
+  // 保存日時（ms）
+  createdAt: number;
+  // 打った日（「2025-01-31」。後から保存したときに直す。無ければ保存日時の日）
+  playDate?: string;
+  modelKey: string;
+  probRandom: string;
+  probC90: string;
+  probC100: string;
+  probFull: string;
+  // 95%区間（古い履歴には無い）
+  ciRandom?: string;
+  ciC90?: string;
+  ciC100?: string;
+  ciFull?: string;
+  // 計算に使った入力と前提（古い履歴には無い）
+  input?: CaptureInput;
+  premise?: Premise;
+  // ホール名・台番（集計に使う）
+  hall?: string;
+  machineNo?: string;
+  // その他のメモ
+  memo?: string;
+  // 小役カウンターで数えた回数（実戦モードから保存したときのみ）
+  counts?: CounterCounts;
+};
+
+export type HistoryMeta = {
+  id?: string;
+  createdAt?: number;
+  playDate?: string;
+  hall?: string;
+  machineNo?: string;
+  memo?: string;
+  counts?: CounterCounts;
+};
+
+export function newHistoryId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// 入力と前提から履歴1行を組み立てる
+export function buildHistoryRow(
+  modelKey: string,
+  input: CaptureInput,
+  premise: Premise,
+  meta: HistoryMeta = {},
+): HistoryRow {
+  const lookup = Object.fromEntries(
+    STRATEGIES.map(s => [s.key, calcResultByCapture(input, premise, s.capture)] as const)
+  );
+  const prob = (k: string) => formatProb(lookup[k]?.grapeProb ?? Infinity);
+  const ci = (k: string) => (lookup[k] ? formatProbRange(lookup[k].ci[95].prob) : "-");
+  return {
+    id: meta.id ?? newHistoryId(),
+    createdAt: meta.createdAt ?? Date.now(),
+    modelKey,
+    probRandom: prob("random"),
+    probC90:    prob("cherry90"),
+    probC100:   prob("cherry100"),
+    probFull:   prob("full"),
+    ciRandom:   ci("random"),
+    ciC90:      ci("cherry90"),
+    ciC100:     ci("cherry100"),
+    ciFull:     ci("full"),
+    input,
+    premise,
+    playDate: meta.playDate?.trim() || undefined,
+    hall: meta.hall?.trim() || undefined,
+    machineNo: meta.machineNo?.trim() || undefined,
+    memo: meta.memo?.trim() || undefined,
+    counts: meta.counts,
+  };
+}
+
+// 打った日（playDate が無い・読めない履歴は保存日時の日）。ローカル時刻の 0 時
+export function playedOn(row: HistoryRow): Date {
+  const m = row.playDate?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (m) return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  const d = new Date(row.createdAt);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+/* -----------------------
+   IndexedDB 操作
+----------------------- */
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("createdAt", "createdAt");
+        store.createIndex("modelKey", "modelKey");
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).then(migrateLegacy);
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// localStorage の旧履歴を一度だけ取り込んで消す
+async function migrateLegacy(db: IDBDatabase) {
+  let legacy: Partial<HistoryRow>[] = [];
+  try {
+    const raw = localStorage.getItem(LEGACY_HISTORY_KEY);
+    legacy = raw ? JSON.parse(raw) : [];
+  } catch {
+    legacy = [];
+  }
+  if (legacy.length === 0) return db;
+
+  const now = Date.now();
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  // 旧履歴は新しい順に並んでいるので、並びが崩れないよう1msずつずらす
+  legacy.forEach((row, i) => {
+    store.put({ ...row, id: row.id ?? newHistoryId(), createdAt: row.createdAt ?? now - i } as HistoryRow);
+  });
+  await txDone(tx);
+  try {
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+  } catch {
+    // 消せなくても次回は id 付きで上書きされるだけ
+  }
+  return db;
+}
+
+// 新しい順
+export async function listHistory(): Promise<HistoryRow[]> {
+  const db = await openDb();
+  const rows = await requestToPromise(
+    db.transaction(STORE, "readonly").objectStore(STORE).getAll() as IDBRequest<HistoryRow[]>
+  );
+  return rows.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function putHistory(rows: HistoryRow | HistoryRow[]) {
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  for (const row of Array.isArray(rows) ? rows : [rows]) store.put(row);
+  await txDone(tx);
+}
+
+export async function deleteHistory(id: string) {
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).delete(id);
+  await txDone(tx);
+}
+
+export async function clearHistory() {
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).clear();
+  await txDone(tx);
+}
+
+/* -----------------------
+   検索・絞り込み
+----------------------- */
+export type HistoryFilter = {
+  modelKey?: string;
+  // 打った日の範囲（"YYYY-MM-DD"、input type=date の値）
+  from?: string;
+  to?: string;
+  text?: string;
+};
+
+export function filterHistory(rows: HistoryRow[], f: HistoryFilter) {
+  const from = f.from ? new Date(`${f.from}T00:00:00`).getTime() : -Infinity;
+  const to = f.to ? new Date(`${f.to}T23:59:59.999`).getTime() : Infinity;
+  const text = (f.text ?? "").trim().toLowerCase();
+  return rows.filter(r =>
+    (!f.modelKey || r.modelKey === f.modelKey) &&
+    playedOn(r).getTime() >= from &&
+    playedOn(r).getTime() <= to &&
+    (!text || `${r.modelKey} ${r.hall ?? ""} ${r.machineNo ?? ""} ${r.memo ?? ""}`.toLowerCase().includes(text))
+  );
+}
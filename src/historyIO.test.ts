@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { importHistoryFile } from "./historyIO.ts";
+import { PRESETS } from "./presets.ts";
+
+// 書き出した CSV と同じ形（先頭行は種別=現在の入力欄）
+const CSV = [
+  "種別,日時,ホール,台番,機種名,総回転数G,BIG,REG,差枚,メモ",
+  "現在,2026/10/19 21:00,,,マイジャグラーV,,,,,",
+  "履歴,2026/10/18 20:15,A店,101,マイジャグラーV,5000,20,18,600,",
+  "履歴,2026/10/18 22:40,A店,102,マイジャグラーV,7000,28,25,1300,",
+].join("\n");
+
+const file = () => new File([CSV], "history.csv", { type: "text/csv" });
+
+describe("importHistoryFile", () => {
+  it("種別=現在の行は取り込まない", async () => {
+    const r = await importHistoryFile(file(), PRESETS);
+    expect(r.errors).toEqual([]);
+    expect(r.skippedCurrent).toBe(1);
+    expect(r.rows.map(row => row.machineNo)).toEqual(["101", "102"]);
+  });
+
+  it("取り込み済みの履歴は二重に取り込まない", async () => {
+    const first = await importHistoryFile(file(), PRESETS);
+    const again = await importHistoryFile(file(), PRESETS, first.rows);
+    expect(again.rows).toEqual([]);
+    expect(again.duplicates).toBe(2);
+  });
+
+  it("打った日の列を読む", async () => {
+    const csv = [
+      "種別,日時,打った日,機種名,総回転数G,BIG,REG,差枚",
+      "履歴,2026/10/19 01:00,2026/10/18,マイジャグラーV,5000,20,18,600",
+      "履歴,2026/10/19 21:00,,マイジャグラーV,7000,28,25,1300",
+    ].join("\n");
+    const r = await importHistoryFile(new File([csv], "history.csv", { type: "text/csv" }), PRESETS);
+    expect(r.errors).toEqual([]);
+    expect(r.rows.map(row => row.playDate)).toEqual(["2026-10-18", undefined]);
+  });
+});
@@ -0,0 +1,289 @@
+import * as XLSX from "xlsx";
+import type { PresetMap } from "./presets.ts";
+import type { CaptureInput, Premise, SplitKey } from "./calc.ts";
+import { buildHistoryRow, type HistoryRow } from "./history.ts";
+import { downloadBlob, formatDateTime } from "./format.ts";
+
+/* -----------------------
+   履歴の Excel/CSV 入出力
+----------------------- */
+
+export type ExportFormat = "xlsx" | "csv";
+
+type Column = { key: string; header: string; aliases?: string[] };
+
+const KIND_COL: Column = { key: "kind", header: "種別" };
+const DATE_COL: Column = { key: "createdAt", header: "日時", aliases: ["日付"] };
+const PLAY_DATE_COL: Column = { key: "playDate", header: "打った日", aliases: ["実戦日", "稼働日"] };
+const HALL_COL: Column = { key: "hall", header: "ホール", aliases: ["店舗", "店名"] };
+const MACHINE_COL: Column = { key: "machineNo", header: "台番", aliases: ["台番号", "台No"] };
+const MEMO_COL: Column = { key: "memo", header: "メモ" };
+const MODEL_COL: Column = { key: "modelKey", header: "機種名", aliases: ["機種"] };
+const INPUT_COLS: (Column & { key: "G" | "big" | "reg" | "diff" })[] = [
+  { key: "G",    header: "総回転数G", aliases: ["総回転数", "回転数", "G", "G数"] },
+  { key: "big",  header: "BIG",       aliases: ["BB", "BIG回数", "ビッグ"] },
+  { key: "reg",  header: "REG",       aliases: ["RB", "REG回数", "レギュラー"] },
+  { key: "diff", header: "差枚",      aliases: ["差枚数", "差玉"] },
+];
+// 単独/チェリー重複の内訳（空欄可）
+const SPLIT_COLS: (Column & { key: SplitKey })[] = [
+  { key: "bigSolo",   header: "単独BIG", aliases: ["単独BB"] },
+  { key: "bigCherry", header: "重複BIG", aliases: ["チェリーBIG", "チェリー重複BIG", "重複BB"] },
+  { key: "regSolo",   header: "単独REG", aliases: ["単独RB"] },
+  { key: "regCherry", header: "重複REG", aliases: ["チェリーREG", "チェリー重複REG", "重複RB"] },
+];
+const PROB_COLS: (Column & { key: "probRandom" | "probC90" | "probC100" | "probFull" })[] = [
+  { key: "probRandom", header: "適当打(1/x)" },
+  { key: "probC90",    header: "C90%(1/x)" },
+  { key: "probC100",   header: "C100%(1/x)" },
+  { key: "probFull",   header: "完全攻略(1/x)" },
+];
+// ぶどうの払い出しは列にせず、機種のプリセットから補う
+const PREMISE_COLS: (Column & { key: Exclude<keyof Premise, "grapePay"> })[] = [
+  { key: "replay",    header: "リプレイ分母" },
+  { key: "cherry",    header: "チェリー分母" },
+  { key: "bell",      header: "ベル分母" },
+  { key: "piero",     header: "ピエロ分母" },
+  { key: "bigAvg",    header: "BIG平均枚数" },
+  { key: "regAvg",    header: "REG平均枚数" },
+  { key: "cherryPay", header: "チェリー払い出し" },
+  { key: "bellPay",   header: "ベル払い出し" },
+  { key: "pieroPay",  header: "ピエロ払い出し" },
+];
+
+const KIND_CURRENT = "現在";
+const KIND_HISTORY = "履歴";
+
+// "1/5.68" → 5.68（表示用文字列から分母だけ取り出す）
+function probDenom(s: string | undefined) {
+  const m = (s ?? "").match(/1\/([\d.]+)/);
+  return m ? Number(m[1]) : "";
+}
+
+function toSheetRow(kind: string, row: HistoryRow) {
+  const out: Record<string, string | number> = {
+    [KIND_COL.header]: kind,
+    [DATE_COL.header]: formatDateTime(row.createdAt),
+    [PLAY_DATE_COL.header]: row.playDate?.replace(/-/g, "/") ?? "",
+    [HALL_COL.header]: row.hall ?? "",
+    [MACHINE_COL.header]: row.machineNo ?? "",
+    [MODEL_COL.header]: row.modelKey,
+  };
+  for (const c of INPUT_COLS) out[c.header] = row.input?.[c.key] ?? "";
+  for (const c of SPLIT_COLS) out[c.header] = row.input?.[c.key] ?? "";
+  for (const c of PROB_COLS) out[c.header] = probDenom(row[c.key]);
+  for (const c of PREMISE_COLS) out[c.header] = row.premise?.[c.key] ?? "";
+  out[MEMO_COL.header] = row.memo ?? "";
+  return out;
+}
+
+const HEADERS = [
+  KIND_COL, DATE_COL, PLAY_DATE_COL, HALL_COL, MACHINE_COL, MODEL_COL, ...INPUT_COLS, ...SPLIT_COLS, ...PROB_COLS, ...PREMISE_COLS, MEMO_COL,
+].map(c => c.header);
+
+/**
+ * 現在の入力（先頭行、種別=現在）と履歴を1枚の表として書き出す。
+ */
+export function exportHistory(format: ExportFormat, current: HistoryRow, history: HistoryRow[]) {
+  const rows = [toSheetRow(KIND_CURRENT, current), ...history.map(h => toSheetRow(KIND_HISTORY, h))];
+  const ws = XLSX.utils.json_to_sheet(rows, { header: HEADERS });
+  const stamp = new Date().toISOString().slice(0, 10);
+  const base = `jug-ocr-history-${stamp}`;
+
+  if (format === "csv") {
+    // Excel で文字化けしないよう BOM を付ける
+    const csv = "\uFEFF" + XLSX.utils.sheet_to_csv(ws);
+    downloadBlob(new Blob([csv], { type: "text/csv;charset=utf-8" }), `${base}.csv`);
+    return;
+  }
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, KIND_HISTORY);
+  XLSX.writeFile(wb, `${base}.xlsx`);
+}
+
+/* -----------------------
+   取り込み
+----------------------- */
+export type ImportError = { line: number; message: string };
+export type ImportResult = {
+  rows: HistoryRow[];
+  errors: ImportError[];
+  // 種別=現在の行（書き出し時の入力欄）と、すでにある履歴と同じ行は取り込まない
+  skippedCurrent: number;
+  duplicates: number;
+};
+
+function normHeader(s: string) {
+  return s.replace(/\s/g, "").toLowerCase();
+}
+
+// 列の見出し → 値 を引く関数を作る（別名と全角・大小文字の揺れを吸収）
+function makeGetter(record: Record<string, unknown>) {
+  const byNorm = new Map<string, unknown>();
+  for (const [k, v] of Object.entries(record)) byNorm.set(normHeader(k), v);
+  return (c: Column) => {
+    for (const h of [c.header, ...(c.aliases ?? [])]) {
+      const v = byNorm.get(normHeader(h));
+      if (v !== undefined && String(v).trim() !== "") return v;
+    }
+    return undefined;
+  };
+}
+
+function toNumber(v: unknown) {
+  if (typeof v === "number") return v;
+  const s = String(v ?? "")
+    .replace(/[０-９]/g, d => String.fromCharCode(d.charCodeAt(0) - 0xFF10 + 0x30))
+    .replace(/[,＋+]/g, "")
+    .replace(/[－−]/g, "-")
+    .trim();
+  return s === "" ? NaN : Number(s);
+}
+
+// "2025/01/31 21:05" などの文字列か Excel のシリアル値 → ms
+function toTimestamp(v: unknown) {
+  if (typeof v === "number") {
+    const utc = (v - 25569) * 86400000;
+    return utc + new Date(utc).getTimezoneOffset() * 60000;
+  }
+  const ms = new Date(String(v).trim().replace(/\//g, "-").replace(" ", "T")).getTime();
+  return ms;
+}
+
+// "2025/1/31" "2025-01-31" や Excel のシリアル値 → "2025-01-31"（読めなければ undefined）
+function toPlayDate(v: unknown) {
+  const m = String(v).trim().match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})/);
+  if (m) return `${m[1]}-${m[2].padStart(2, "0")}-${m[3].padStart(2, "0")}`;
+  if (typeof v !== "number") return undefined;
+  const d = new Date(toTimestamp(v));
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function parseRecord(record: Record<string, unknown>, presets: PresetMap): { row?: HistoryRow; problems: string[] } {
+  const get = makeGetter(record);
+  const problems: string[] = [];
+
+  const modelKey = String(get(MODEL_COL) ?? "").trim();
+  if (!modelKey) problems.push("機種名が空です");
+  const preset: Premise | undefined = presets[modelKey];
+
+  const input = {} as CaptureInput;
+  for (const c of INPUT_COLS) {
+    const v = get(c);
+    const n = toNumber(v);
+    if (v === undefined) problems.push(`${c.header}が空です`);
+    else if (!Number.isInteger(n)) problems.push(`${c.header}「${String(v)}」が整数ではありません`);
+    else if (c.key !== "diff" && n < 0) problems.push(`${c.header}が負の値です`);
+    else input[c.key] = n;
+  }
+  for (const c of SPLIT_COLS) {
+    const v = get(c);
+    if (v === undefined) continue;
+    const n = toNumber(v);
+    if (!Number.isInteger(n) || n < 0) problems.push(`${c.header}「${String(v)}」が0以上の整数ではありません`);
+    else input[c.key] = n;
+  }
+  if (input.G === 0) problems.push("総回転数Gが0です");
+
+  // 前提は空欄ならプリセットで補う
+  const premise = {} as Premise;
+  const missing: string[] = [];
+  for (const c of PREMISE_COLS) {
+    const v = get(c);
+    if (v === undefined) {
+      if (preset) premise[c.key] = preset[c.key];
+      else missing.push(c.header);
+      continue;
+    }
+    const n = toNumber(v);
+    // 払い出しは 0 枚もある（使わない役）
+    const pay = c.key.endsWith("Pay");
+    if (pay ? !(n >= 0) : !(n > 0)) problems.push(`${c.header}「${String(v)}」が${pay ? "0以上の数" : "正の数"}ではありません`);
+    else premise[c.key] = n;
+  }
+  if (preset?.grapePay != null) premise.grapePay = preset.grapePay;
+  if (modelKey && missing.length > 0) {
+    problems.push(`プリセットに無い機種のため前提が必要です（不足: ${missing.join("・")}）`);
+  }
+
+  // 日時・打った日・ホール・台番・メモは任意（日時が空欄なら取り込み時刻）
+  const dateRaw = get(DATE_COL);
+  let createdAt: number | undefined;
+  if (dateRaw !== undefined) {
+    createdAt = toTimestamp(dateRaw);
+    if (!isFinite(createdAt)) problems.push(`日時「${String(dateRaw)}」を読めません`);
+  }
+  const playRaw = get(PLAY_DATE_COL);
+  const playDate = playRaw === undefined ? undefined : toPlayDate(playRaw);
+  if (playRaw !== undefined && !playDate) problems.push(`打った日「${String(playRaw)}」を読めません`);
+  const text = (c: Column) => {
+    const v = get(c);
+    return v === undefined ? undefined : String(v);
+  };
+
+  if (problems.length > 0) return { problems };
+  return {
+    row: buildHistoryRow(modelKey, input, premise, {
+      createdAt,
+      playDate,
+      hall: text(HALL_COL),
+      machineNo: text(MACHINE_COL),
+      memo: text(MEMO_COL),
+    }),
+    problems,
+  };
+}
+
+// 同じ履歴かどうかの目印（書き出しの日時は分までなので分単位で比べる）
+function sameRowKey(row: HistoryRow) {
+  const i = row.input;
+  return [Math.floor(row.createdAt / 60000), row.modelKey, i?.G, i?.big, i?.reg, i?.diff].join("|");
+}
+
+/**
+ * .xlsx / .csv を読み込んで履歴行に変換する。
+ * 前提の空欄は presets（組み込み＋カスタム）の同名機種で補う。
+ * 種別=現在の行と、existing（今ある履歴）やファイル内の前の行と日時・機種・入力が同じ行は飛ばす。
+ * 不正な行は取り込まずに行番号（見出し=1行目）と理由を返す。
+ */
+export async function importHistoryFile(file: File, presets: PresetMap, existing: HistoryRow[] = []): Promise<ImportResult> {
+  const isCsv = /\.csv$/i.test(file.name) || file.type === "text/csv";
+  const wb = isCsv
+    ? XLSX.read((await file.text()).replace(/^\uFEFF/, ""), { type: "string" })
+    : XLSX.read(await file.arrayBuffer(), { type: "array" });
+
+  const sheetName = wb.SheetNames.includes(KIND_HISTORY) ? KIND_HISTORY : wb.SheetNames[0];
+  if (!sheetName) return { rows: [], errors: [{ line: 0, message: "シートが見つかりません" }], skippedCurrent: 0, duplicates: 0 };
+  const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(wb.Sheets[sheetName], {
+    defval: "",
+    raw: true,
+  });
+
+  const rows: HistoryRow[] = [];
+  const errors: ImportError[] = [];
+  const seen = new Set(existing.map(sameRowKey));
+  let skippedCurrent = 0, duplicates = 0;
+  records.forEach((rec, i) => {
+    // sheet_to_json は空行を飛ばすので、元の行番号は __rowNum__ から取る
+    const line = ((rec as { __rowNum__?: number }).__rowNum__ ?? i + 1) + 1;
+    if (String(makeGetter(rec)(KIND_COL) ?? "").trim() === KIND_CURRENT) {
+      skippedCurrent++;
+      return;
+    }
+    const { row, problems } = parseRecord(rec, presets);
+    if (!row) {
+      errors.push({ line, message: problems.join(" / ") });
+      return;
+    }
+    const key = sameRowKey(row);
+    if (seen.has(key)) {
+      duplicates++;
+      return;
+    }
+    seen.add(key);
+    rows.push(row);
+  });
+  if (records.length === 0) errors.push({ line: 0, message: "データ行がありません" });
+  return { rows, errors, skippedCurrent, duplicates };
+}
@@ -0,0 +1,172 @@
+import { calcResultByCapture, type CaptureInput, type CaptureResult, type Premise } from "./calc.ts";
+import type { SettingTable } from "./presets.ts";
+import type { StrategyProfile } from "./strategies.ts";
+import { estimateSetting, expectedSetting } from "./settingEstimate.ts";
+import { numberOr, trySetItem } from "./format.ts";
+
+/* -----------------------
+   島（複数台）まとめて逆算（localStorage に保存）
+----------------------- */
+const ISLAND_KEY = "jug-ocr-v1.2:island";
+
+// 入力途中の値も持つので文字列のまま保存
+export type IslandRow = {
+  id: string;
+  number: string;
+  modelKey: string;
+  G: string;
+  big: string;
+  reg: string;
+  diff: string;
+};
+
+// 貼り付け・表示で使う列の順番
+export const ISLAND_COLUMNS = ["number", "modelKey", "G", "big", "reg", "diff"] as const;
+export type IslandColumn = (typeof ISLAND_COLUMNS)[number];
+
+export const ISLAND_COLUMN_LABELS: Record<IslandColumn, string> = {
+  number: "台番",
+  modelKey: "機種",
+  G: "G",
+  big: "BIG",
+  reg: "REG",
+  diff: "差枚",
+};
+
+// 設定5以上の見込みがこれ以上なら高設定候補として色付け
+export const HIGH_SETTING_THRESHOLD = 0.5;
+
+export function newIslandRow(modelKey: string, number = ""): IslandRow {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    number,
+    modelKey,
+    G: "",
+    big: "",
+    reg: "",
+    diff: "",
+  };
+}
+
+export function loadIslandRows(): IslandRow[] {
+  try {
+    const raw = localStorage.getItem(ISLAND_KEY);
+    const rows = raw ? JSON.parse(raw) : [];
+    return Array.isArray(rows) ? rows.filter(r => r && typeof r.id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+export function saveIslandRows(rows: IslandRow[]) {
+  trySetItem(ISLAND_KEY, JSON.stringify(rows));
+}
+
+// 次の台番（数字なら +1）
+export function nextNumber(rows: IslandRow[]) {
+  const last = rows[rows.length - 1]?.number ?? "";
+  const n = parseInt(last, 10);
+  return isFinite(n) ? String(n + 1) : "";
+}
+
+/**
+ * 表計算ソフトからの貼り付け（タブ区切り・改行で複数行）を 2 次元配列に。
+ * 1 セルだけの貼り付けなら null（普通の入力として扱う）。
+ */
+export function parsePastedCells(text: string): string[][] | null {
+  const lines = text.replace(/\r\n?/g, "\n").replace(/\n$/, "").split("\n");
+  const cells = lines.map(l => l.split("\t").map(c => c.trim()));
+  if (cells.length === 1 && cells[0].length === 1) return null;
+  return cells;
+}
+
+/* -----------------------
+   1台ごとの計算と島全体の集計
+----------------------- */
+export type IslandCalc = {
+  row: IslandRow;
+  input: CaptureInput | null;
+  // BIG+REG の合算分母
+  combined: number;
+  // 打法 key → 逆算結果
+  results: Record<string, CaptureResult>;
+  // 設定5以上の見込み・期待設定（設定表が無い機種・G 未入力は null）
+  highProb: number | null;
+  expected: number | null;
+};
+
+export type PremiseResolver = (modelKey: string) => { premise: Premise; settings?: SettingTable } | null;
+
+export function calcIslandRow(
+  row: IslandRow,
+  strategies: StrategyProfile[],
+  resolve: PremiseResolver,
+  // 設定判別に使う打法
+  settingStrategyKey: string,
+): IslandCalc {
+  const input: CaptureInput = {
+    G: numberOr(row.G, NaN),
+    big: numberOr(row.big, 0),
+    reg: numberOr(row.reg, 0),
+    diff: numberOr(row.diff, 0),
+  };
+  const spec = resolve(row.modelKey);
+  if (!(input.G > 0) || !spec) {
+    return { row, input: null, combined: Infinity, results: {}, highProb: null, expected: null };
+  }
+  const results = Object.fromEntries(
+    strategies.map(s => [s.key, calcResultByCapture(input, spec.premise, s.capture)] as const)
+  );
+  const bonus = input.big + input.reg;
+  const grapes = results[settingStrategyKey]?.grapesCount;
+  const est = spec.settings && grapes != null
+    ? estimateSetting({ G: input.G, big: input.big, reg: input.reg, grapes }, spec.settings)
+    : null;
+  return {
+    row,
+    input,
+    combined: bonus > 0 ? input.G / bonus : Infinity,
+    results,
+    highProb: est ? est.posterior[4] + est.posterior[5] : null,
+    expected: est ? expectedSetting(est.posterior) : null,
+  };
+}
+
+export type IslandTotals = {
+  machines: number;
+  G: number;
+  big: number;
+  reg: number;
+  diff: number;
+  combined: number;
+  bigProb: number;
+  regProb: number;
+  // 打法 key → 島全体のぶどう分母（総 G ÷ 逆算回数の合計）
+  grapeProb: Record<string, number>;
+  avgDiff: number;
+  avgG: number;
+};
+
+export function islandTotals(calcs: IslandCalc[], strategies: StrategyProfile[]): IslandTotals {
+  const used = calcs.filter(c => c.input != null);
+  const sum = (f: (c: IslandCalc) => number) => used.reduce((a, c) => a + f(c), 0);
+  const G = sum(c => c.input!.G);
+  const big = sum(c => c.input!.big);
+  const reg = sum(c => c.input!.reg);
+  const diff = sum(c => c.input!.diff);
+  const div = (a: number, b: number) => (b > 0 ? a / b : Infinity);
+  return {
+    machines: used.length,
+    G,
+    big,
+    reg,
+    diff,
+    combined: div(G, big + reg),
+    bigProb: div(G, big),
+    regProb: div(G, reg),
+    grapeProb: Object.fromEntries(
+      strategies.map(s => [s.key, div(G, sum(c => c.results[s.key]?.grapesCount ?? 0))])
+    ),
+    avgDiff: used.length > 0 ? diff / used.length : NaN,
+    avgG: used.length > 0 ? G / used.length : NaN,
+  };
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { parsePage } from "./layoutParse.ts";
+
+const MODELS = ["マイジャグラーV", "ミスタージャグラー"];
+
+describe("parsePage", () => {
+  it("機種名だけの画面でも機種を返す", () => {
+    const page = parsePage("台番 512\nミスタージャグラー", [], "auto", MODELS, "a.png", 80);
+    expect(page.parsed).toEqual({ modelKey: "ミスタージャグラー" });
+    expect(page.candidates.map(c => c.field)).toEqual(["modelKey"]);
+  });
+
+  it("機種名も数値も無ければ null", () => {
+    expect(parsePage("本日の営業時間", [], "auto", MODELS, "a.png", 80).parsed).toBeNull();
+  });
+});
@@ -0,0 +1,279 @@
+import {
+  detectModel,
+  LABEL_EXCLUDE_PREFIX,
+  LABEL_VOCAB,
+  normalizeOcrText,
+  parseFromText,
+  NUMERIC_FIELDS,
+  textCandidates,
+  type FieldCandidate,
+  type NumericField,
+  type ParsedFields,
+} from "./ocrParse.ts";
+
+/* -----------------------
+   レイアウトを使った読み取り（Tesseract の単語座標）
+----------------------- */
+
+// Tesseract の Word から必要な分だけ
+export type OcrWord = {
+  text: string;
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+};
+export type OcrLine = { words: OcrWord[]; text?: string; confidence?: number };
+type OcrBlock = { paragraphs: { lines: OcrLine[] }[] };
+
+export const LAYOUT_PROFILES = {
+  auto:       "自動",
+  rowTable:   "横並び表（見出し行の下に数値行）",
+  valueAbove: "数値の下に見出し（カウンター表示）",
+  labelValue: "縦並びリスト（見出し：数値）",
+  text:       "テキストのみ（従来の読み取り）",
+} as const;
+export type LayoutProfile = keyof typeof LAYOUT_PROFILES;
+type PairingProfile = Exclude<LayoutProfile, "auto" | "text">;
+const PAIRING_PROFILES: PairingProfile[] = ["rowTable", "valueAbove", "labelValue"];
+
+// 値として妥当な範囲（日付や別項目との取り違え除け）
+const VALUE_RANGE: Record<NumericField, [number, number]> = {
+  G: [10, 30000],
+  big: [0, 300],
+  reg: [0, 300],
+  diff: [-50000, 50000],
+  bigSolo: [0, 300],
+  bigCherry: [0, 300],
+  regSolo: [0, 300],
+  regCherry: [0, 300],
+};
+
+type Box = { x0: number; y0: number; x1: number; y1: number };
+type Label = Box & { field: NumericField; text: string; line: number; conf: number };
+type Value = Box & { value: number; signed: boolean; raw: string; line: number; conf: number; id: number };
+
+export type LayoutPick = {
+  field: NumericField;
+  value: number;
+  // 組にした見出しの文字
+  labelText: string;
+  confidence: number;
+};
+export type LayoutResult = {
+  profile: PairingProfile;
+  fields: ParsedFields;
+  picks: LayoutPick[];
+  // 組めた見出しと数値の全候補（近い順）
+  alternatives: (LayoutPick & { snippet: string })[];
+};
+
+const LABEL_MAX_TOKENS = 4;
+
+export function linesFromBlocks(blocks: OcrBlock[] | null | undefined): OcrLine[] {
+  return (blocks ?? []).flatMap(b => b.paragraphs.flatMap(p => p.lines));
+}
+
+function unionBox(words: OcrWord[]): Box {
+  return {
+    x0: Math.min(...words.map(w => w.bbox.x0)),
+    y0: Math.min(...words.map(w => w.bbox.y0)),
+    x1: Math.max(...words.map(w => w.bbox.x1)),
+    y1: Math.max(...words.map(w => w.bbox.y1)),
+  };
+}
+
+// 「1,234」「+567」「1234G」「-89枚」→ 数値。日付・時刻・確率は弾く
+function parseValueToken(raw: string) {
+  const t = normalizeOcrText(raw).replace(/\s/g, "");
+  if (/[/:年月日.%]/.test(t)) return null;
+  const m = t.match(/^([+-]?)(\d{1,6})(g|枚)?$/);
+  if (!m) return null;
+  return { value: parseInt(m[1] + m[2], 10), signed: m[1] !== "" };
+}
+
+function collect(lines: OcrLine[]) {
+  const labels: Label[] = [];
+  const values: Value[] = [];
+  lines.forEach((line, li) => {
+    const words = line.words.filter(w => w.text.trim() !== "");
+    const norms = words.map(w => normalizeOcrText(w.text).replace(/\s/g, ""));
+    const used = new Set<number>();
+
+    // 項目名: 隣り合う単語をつなげて語彙と一致するもの（長い方を優先）
+    for (let i = 0; i < words.length; i++) {
+      for (let k = Math.min(LABEL_MAX_TOKENS, words.length - i); k >= 1; k--) {
+        const joined = norms.slice(i, i + k).join("");
+        const field = (Object.keys(LABEL_VOCAB) as NumericField[]).find(f => LABEL_VOCAB[f].test(joined));
+        if (!field) continue;
+        if (i > 0 && LABEL_EXCLUDE_PREFIX[field].test(norms[i - 1])) break;
+        const ws = words.slice(i, i + k);
+        labels.push({
+          ...unionBox(ws),
+          field,
+          text: ws.map(w => w.text).join(""),
+          line: li,
+          conf: Math.min(...ws.map(w => w.confidence)),
+        });
+        for (let j = i; j < i + k; j++) used.add(j);
+        i += k - 1;
+        break;
+      }
+    }
+
+    words.forEach((w, i) => {
+      if (used.has(i)) return;
+      const v = parseValueToken(w.text);
+      if (v) values.push({ ...w.bbox, ...v, raw: w.text, line: li, conf: w.confidence, id: values.length });
+    });
+  });
+  return { labels, values };
+}
+
+const cx = (b: Box) => (b.x0 + b.x1) / 2;
+const cy = (b: Box) => (b.y0 + b.y1) / 2;
+const height = (b: Box) => Math.max(1, b.y1 - b.y0);
+
+// 見出しと数値の組み合わせの「遠さ」。組めない場合は null
+function pairCost(profile: PairingProfile, l: Label, v: Value): number | null {
+  const h = height(l);
+  const hOverlap = Math.min(l.x1, v.x1) - Math.max(l.x0, v.x0);
+  const dxCenter = Math.abs(cx(l) - cx(v));
+  const colWidth = Math.max(l.x1 - l.x0, v.x1 - v.x0);
+
+  switch (profile) {
+    case "rowTable": {
+      const dy = v.y0 - l.y1;
+      if (dy < -h / 2 || dy > h * 4) return null;
+      if (hOverlap <= 0 && dxCenter > colWidth) return null;
+      return Math.max(0, dy) + dxCenter * 0.5;
+    }
+    case "valueAbove": {
+      const dy = l.y0 - v.y1;
+      if (dy < -h / 2 || dy > h * 4) return null;
+      if (hOverlap <= 0 && dxCenter > colWidth) return null;
+      return Math.max(0, dy) + dxCenter * 0.5;
+    }
+    case "labelValue": {
+      const dyCenter = Math.abs(cy(l) - cy(v));
+      if (dyCenter > h * 0.8) return null;
+      const dx = v.x0 - l.x1;
+      if (dx < -h) return null;
+      return Math.max(0, dx) + dyCenter * 2;
+    }
+  }
+}
+
+function inRange(field: NumericField, v: Value) {
+  const [lo, hi] = VALUE_RANGE[field];
+  if (v.value < lo || v.value > hi) return false;
+  // 符号付きの数値は差枚以外には使わない
+  return field === "diff" || !v.signed;
+}
+
+/**
+ * 指定レイアウトで見出しと数値を組にする。コストの小さい組から確定し、
+ * 1つの数値は1項目にしか使わない。
+ */
+function pairWith(profile: PairingProfile, labels: Label[], values: Value[]): LayoutResult {
+  const cands: { l: Label; v: Value; cost: number }[] = [];
+  for (const l of labels) {
+    for (const v of values) {
+      if (!inRange(l.field, v)) continue;
+      const cost = pairCost(profile, l, v);
+      if (cost != null) cands.push({ l, v, cost });
+    }
+  }
+  cands.sort((a, b) => a.cost - b.cost);
+
+  const fields: ParsedFields = {};
+  const picks: LayoutPick[] = [];
+  const alternatives: LayoutResult["alternatives"] = cands.map(({ l, v }) => ({
+    field: l.field,
+    value: v.value,
+    labelText: l.text,
+    confidence: Math.min(l.conf, v.conf),
+    snippet: `${l.text} → ${v.raw}`,
+  }));
+  const usedValues = new Set<number>();
+  for (const { l, v } of cands) {
+    if (fields[l.field] != null || usedValues.has(v.id)) continue;
+    fields[l.field] = v.value;
+    usedValues.add(v.id);
+    picks.push({
+      field: l.field,
+      value: v.value,
+      labelText: l.text,
+      confidence: Math.min(l.conf, v.conf),
+    });
+  }
+  return { profile, fields, picks, alternatives };
+}
+
+/**
+ * 単語座標から G・BIG・REG・差枚を読み取る。profile が auto のときは
+ * 各レイアウトで試して一番多く項目が埋まったもの（同数なら信頼度の高い方）を採る。
+ * 何も組めなければ null（呼び出し側でテキスト読み取りにフォールバック）。
+ */
+export function parseFromLayout(lines: OcrLine[], profile: LayoutProfile): LayoutResult | null {
+  if (profile === "text" || lines.length === 0) return null;
+  const { labels, values } = collect(lines);
+  if (labels.length === 0 || values.length === 0) return null;
+
+  const profiles = profile === "auto" ? PAIRING_PROFILES : [profile];
+  const score = (r: LayoutResult) =>
+    r.picks.length * 1000 + r.picks.reduce((a, p) => a + p.confidence, 0) / Math.max(1, r.picks.length);
+  const best = profiles
+    .map(p => pairWith(p, labels, values))
+    .reduce((a, b) => (score(b) > score(a) ? b : a));
+  return best.picks.length > 0 ? best : null;
+}
+
+export type PageParse = {
+  parsed: ParsedFields | null;
+  layout: LayoutResult | null;
+  // テキスト読み取りで補った項目
+  fromText: NumericField[];
+  // 確認画面に出す候補（レイアウト → テキストの順）
+  candidates: FieldCandidate[];
+};
+
+/**
+ * レイアウト読み取りを優先し、取れなかった項目だけ従来のテキスト読み取りで補う。
+ */
+export function parsePage(
+  text: string,
+  lines: OcrLine[],
+  profile: LayoutProfile,
+  modelNames: string[],
+  source: string,
+  pageConfidence: number,
+): PageParse {
+  const layout = parseFromLayout(lines, profile);
+  const byText = parseFromText(text, modelNames);
+  const fromText: NumericField[] = [];
+  // 数値が読めず parseFromText が null でも、機種名だけは拾っておく
+  const modelKey = byText ? byText.modelKey : text ? detectModel(normalizeOcrText(text), modelNames) : undefined;
+  const parsed: ParsedFields = { ...layout?.fields, modelKey };
+  for (const f of NUMERIC_FIELDS) {
+    if (parsed[f] == null && byText?.[f] != null) {
+      parsed[f] = byText[f];
+      fromText.push(f);
+    }
+  }
+  const any = Object.values(parsed).some(v => v != null);
+
+  const candidates: FieldCandidate[] = [];
+  const seen = new Set<string>();
+  for (const a of layout?.alternatives ?? []) {
+    const k = `${a.field}:${a.value}`;
+    if (seen.has(k)) continue;
+    seen.add(k);
+    candidates.push({ field: a.field, value: a.value, confidence: a.confidence, snippet: a.snippet, source, method: "layout" });
+  }
+  for (const c of textCandidates(text, modelNames, lines, pageConfidence, source)) {
+    const k = `${c.field}:${c.value}`;
+    if (seen.has(k)) continue;
+    seen.add(k);
+    candidates.push(c);
+  }
+  return { parsed: any ? parsed : null, layout, fromText, candidates };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { parseFromText } from "./ocrParse.ts";
+import { PRESETS } from "./presets.ts";
+
+const names = Object.keys(PRESETS);
+
+// データカウンター・データサイトの読み取り結果の例
+const SAMPLES: { text: string; expected: Record<string, number | string> }[] = [
+  {
+    text: "BB 30 RB 25 総回転数 8000",
+    expected: { big: 30, reg: 25, G: 8000 },
+  },
+  {
+    text: "ミスタージャグラー BB 25 RB 18 総回転数 5000",
+    expected: { modelKey: "ミスタージャグラー", big: 25, reg: 18, G: 5000 },
+  },
+  {
+    text: "ミスタージャグラー\nBB 25\nRB 18\n総回転数 5000",
+    expected: { modelKey: "ミスタージャグラー", big: 25, reg: 18, G: 5000 },
+  },
+  {
+    text: "マイジャグラーV BIG:21 REG:19 差枚 +1200",
+    expected: { modelKey: "マイジャグラーV", big: 21, reg: 19, diff: 1200 },
+  },
+  // 崩れたカタカナ（小書き・長音の読み違い、ルがノレに割れる、ハが八になる）
+  {
+    text: "ネオアイムジヤグラ一EX BB 12 RB 9 総回転数 3000",
+    expected: { modelKey: "ネオアイムジャグラーEX", big: 12, reg: 9, G: 3000 },
+  },
+  {
+    text: "ウルトラミラクノレジヤグラー BB 12 RB 9 総回転数 3000",
+    expected: { modelKey: "ウルトラミラクルジャグラー", big: 12, reg: 9, G: 3000 },
+  },
+  {
+    text: "シヤグラ一ガールズSS BB 12 RB 9 総回転数 3000",
+    expected: { modelKey: "ジャグラーガールズSS", big: 12, reg: 9, G: 3000 },
+  },
+  {
+    text: "キング八ナ八ナ BB 12 RB 9 総回転数 3000",
+    expected: { modelKey: "ハナハナ系Aタイプ", big: 12, reg: 9, G: 3000 },
+  },
+  {
+    text: "単独BIG 14 チェリーBIG 6 BIG 20 単独REG 10 重複REG 5 REG 15",
+    expected: { big: 20, reg: 15, bigSolo: 14, bigCherry: 6, regSolo: 10, regCherry: 5 },
+  },
+];
+
+describe("parseFromText", () => {
+  for (const { text, expected } of SAMPLES) {
+    it(text.replace(/\n/g, " / "), () => {
+      expect(parseFromText(text, names)).toMatchObject(expected);
+    });
+  }
+});
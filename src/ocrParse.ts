@@ -0,0 +1,303 @@
+import { MODEL_ALIASES, type ModelAliases } from "./presets.ts";
+
+/* -----------------------
+   OCRテキスト → 数値抽出
+----------------------- */
+export type ParsedFields = {
+  modelKey?: string;
+  G?: number;
+  big?: number;
+  reg?: number;
+  diff?: number;
+  // 単独/チェリー重複の内訳（表示している画面だけ）
+  bigSolo?: number;
+  bigCherry?: number;
+  regSolo?: number;
+  regCherry?: number;
+};
+export type FieldKey = keyof ParsedFields;
+
+export const FIELD_LABELS: Record<FieldKey, string> = {
+  modelKey: "機種",
+  G: "総回転数",
+  big: "BIG",
+  reg: "REG",
+  diff: "差枚",
+  bigSolo: "単独BIG",
+  bigCherry: "重複BIG",
+  regSolo: "単独REG",
+  regCherry: "重複REG",
+};
+export type NumericField = Exclude<FieldKey, "modelKey">;
+// BIG・REG の内訳の項目
+export const SPLIT_FIELDS: NumericField[] = ["bigSolo", "bigCherry", "regSolo", "regCherry"];
+
+// 全角英数字・記号をそろえて小文字化
+export function normalizeOcrText(raw: string) {
+  return raw
+    .replace(/[\uFF10-\uFF19]/g, d => String.fromCharCode(d.charCodeAt(0) - 0xFF10 + 0x30))
+    .replace(/[\uFF21-\uFF3A\uFF41-\uFF5A]/g, c => String.fromCharCode(c.charCodeAt(0) - 0xFEE0))
+    .replace(/（/g, "(")
+    .replace(/）/g, ")")
+    .replace(/[ ,\t]+/g, " ")
+    .replace(/,/g, "")
+    .replace(/Ｇ/g, "G")
+    .replace(/－/g, "-")
+    .replace(/＋/g, "+")
+    .toLowerCase();
+}
+
+/* -----------------------
+   機種名の照合（OCR で崩れたカタカナも拾う）
+----------------------- */
+// OCR が取り違えやすい字（漢字・ひらがな → カタカナ、長音の揺れ）
+const KANA_LOOKALIKES: Record<string, string> = {
+  "一": "ー", "―": "ー", "—": "ー", "‐": "ー", "-": "ー", "~": "ー", "〜": "ー",
+  "八": "ハ", "口": "ロ", "工": "エ", "力": "カ", "二": "ニ", "卜": "ト", "夕": "タ", "三": "ミ",
+  "ァ": "ア", "ィ": "イ", "ゥ": "ウ", "ェ": "エ", "ォ": "オ", "ッ": "ツ", "ャ": "ヤ", "ュ": "ユ", "ョ": "ヨ", "ヮ": "ワ",
+};
+
+/**
+ * 照合用に崩す: 全角半角・濁点半濁点・小書き・ひらがな/カタカナ・似た字をそろえ、空白と記号を除く。
+ * 「ジャグラー」も「シヤクラ一」も「シヤクラー」になる。
+ */
+export function foldModelName(s: string) {
+  return s
+    .normalize("NFKD")
+    .replace(/[\u3099\u309A]/g, "")
+    .replace(/[\u3041-\u3096]/g, c => String.fromCharCode(c.charCodeAt(0) + 0x60))
+    .replace(/./g, c => KANA_LOOKALIKES[c] ?? c)
+    .toLowerCase()
+    .replace(/[\s・.,:'"()（）「」]/g, "");
+}
+
+// key が text のどこかに何文字違いで入っているか（部分文字列への編集距離）
+function substringDistance(key: string, text: string) {
+  let prev = new Array<number>(text.length + 1).fill(0);
+  for (let i = 1; i <= key.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= text.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (key[i - 1] === text[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return Math.min(...prev);
+}
+
+// 何文字までの違いを許すか（短い名前は取り違えやすいので完全一致だけ）
+const fuzzyLimit = (len: number) => (len >= 12 ? 2 : len >= 6 ? 1 : 0);
+
+/**
+ * テキストから機種を探す。機種名と別表記（aliases）を崩した形で長い順に照合し、
+ * 見つからなければ数文字の読み違いまで許して一番近いものを返す。
+ * 長い名前から照合するのは「◯◯ 甘め」などのカスタム名を元機種より優先するため。
+ */
+export function detectModel(text: string, modelNames: string[], aliases: ModelAliases = MODEL_ALIASES) {
+  const flat = foldModelName(text);
+  const keys = modelNames
+    .flatMap(name => [name, ...(aliases[name] ?? [])].map(k => ({ name, key: foldModelName(k) })))
+    .filter(k => k.key.length > 0)
+    .sort((a, b) => b.key.length - a.key.length);
+  const exact = keys.find(k => flat.includes(k.key));
+  if (exact) return exact.name;
+
+  let best: { name: string; dist: number; len: number } | undefined;
+  for (const { name, key } of keys) {
+    const limit = fuzzyLimit(key.length);
+    if (limit === 0) continue;
+    const dist = substringDistance(key, flat);
+    if (dist > limit) continue;
+    if (!best || dist < best.dist || (dist === best.dist && key.length > best.len)) best = { name, dist, len: key.length };
+  }
+  return best?.name;
+}
+
+/* -----------------------
+   項目名の語彙（正規化後のテキストに完全一致で使う）
+----------------------- */
+export const LABEL_VOCAB: Record<NumericField, RegExp> = {
+  G: /^(総?回転数|総?g数|総?ゲーム数|総ゲーム|累計ゲーム数?|累計g数?|累計回転数?|累計スタート|総スタート|total)$/,
+  big: /^(bb|big|ビッグ|bb回数|big回数|bb数|big数|ビッグ回数|ビッグボーナス)$/,
+  reg: /^(rb|reg|レギュラー|rb回数|reg回数|rb数|reg数|レギュラー回数|レギュラーボーナス)$/,
+  diff: /^(差枚数?|差玉|差枚数|出玉|推定差枚数?|差枚\(推定\)|最終差枚数?)$/,
+  // 内訳は「単独REG」のように前に付く形だけ（「REG 単独 REG」と並んだ見出しを取り違えないため）
+  bigSolo: /^単独(bb|big|ビッグ)$/,
+  bigCherry: /^(チェリー|ﾁｪﾘｰ|重複)重複?(bb|big|ビッグ)$/,
+  regSolo: /^単独(rb|reg|レギュラー)$/,
+  regCherry: /^(チェリー|ﾁｪﾘｰ|重複)重複?(rb|reg|レギュラー)$/,
+};
+// 台番・機種名の見出し（データサイトの表の取り込みで使う）
+export const MACHINE_NO_LABEL = /^(台番号?|台no\.?|台|no\.?|番号)$/;
+export const MODEL_LABEL = /^(機種名?|機種名称)$/;
+
+// 直前にこれが付く項目名は別物（最大差枚・総差枚・前日BBなど）
+export const LABEL_EXCLUDE_PREFIX: Record<NumericField, RegExp> = {
+  G: /(前日|昨日|現在)$/,
+  big: /(前日|昨日|合計)$/,
+  reg: /(前日|昨日|合計)$/,
+  diff: /(最大|最高|最低|合計|平均|前日|昨日|総)$/,
+  bigSolo: /(前日|昨日)$/,
+  bigCherry: /(前日|昨日)$/,
+  regSolo: /(前日|昨日)$/,
+  regCherry: /(前日|昨日)$/,
+};
+
+/* -----------------------
+   テキストからの読み取りパターン（上から優先）
+----------------------- */
+type TextPattern = { re: RegExp; pick: (m: RegExpMatchArray) => string };
+// 内訳の見出し（「単独REG」「REG単独」「チェリーREG」「重複REG」など）
+const SOLO_BIG = /(単独\s*(?:bb|big|ビッグ)|(?:bb|big|ビッグ)\s*単独)/.source;
+const CHERRY_BIG = /((?:チェリー|ﾁｪﾘｰ|重複)\s*(?:重複)?\s*(?:bb|big|ビッグ)|(?:bb|big|ビッグ)\s*(?:チェリー|ﾁｪﾘｰ)?\s*重複)/.source;
+const SOLO_REG = /(単独\s*(?:rb|reg|レギュラー)|(?:rb|reg|レギュラー)\s*単独)/.source;
+const CHERRY_REG = /((?:チェリー|ﾁｪﾘｰ|重複)\s*(?:重複)?\s*(?:rb|reg|レギュラー)|(?:rb|reg|レギュラー)\s*(?:チェリー|ﾁｪﾘｰ)?\s*重複)/.source;
+const COUNT = /\s*[:：]?\s*(\d{1,3})/.source;
+const TEXT_PATTERNS: Record<NumericField, TextPattern[]> = {
+  G: [
+    { re: /(総?回転数|g数|回転数)\s*[:：]?\s*(\d{2,6})\s*g?/, pick: m => m[2] },
+    { re: /(\d{3,6})\s*g(?!\/)/, pick: m => m[1] },
+  ],
+  // 直前が「単独」「重複」「チェリー」なら内訳なので合計には使わない
+  big: [{ re: /(?<!(?:単独|重複|チェリー|ﾁｪﾘｰ)\s*)(bb|big|ビッグ)\s*[:：]?\s*(\d{1,3})/, pick: m => m[2] }],
+  reg: [{ re: /(?<!(?:単独|重複|チェリー|ﾁｪﾘｰ)\s*)(rb|reg|レギュラー)\s*[:：]?\s*(\d{1,3})/, pick: m => m[2] }],
+  diff: [
+    { re: /(差枚(数)?|差玉|差枚数)\s*[:：]?\s*([+-]?\d{1,6})/, pick: m => m[3] },
+    { re: /([+-]\d{1,6})\s*(枚)?/, pick: m => m[1] },
+  ],
+  bigSolo: [{ re: new RegExp(SOLO_BIG + COUNT), pick: m => m[2] }],
+  bigCherry: [{ re: new RegExp(CHERRY_BIG + COUNT), pick: m => m[2] }],
+  regSolo: [{ re: new RegExp(SOLO_REG + COUNT), pick: m => m[2] }],
+  regCherry: [{ re: new RegExp(CHERRY_REG + COUNT), pick: m => m[2] }],
+};
+export const NUMERIC_FIELDS = Object.keys(TEXT_PATTERNS) as NumericField[];
+
+export function parseFromText(raw: string, modelNames: string[]): ParsedFields | null {
+  if (!raw) return null;
+  const text = normalizeOcrText(raw);
+  const out: ParsedFields = { modelKey: detectModel(text, modelNames) };
+
+  for (const f of NUMERIC_FIELDS) {
+    for (const { re, pick } of TEXT_PATTERNS[f]) {
+      const m = text.match(re);
+      if (m) { out[f] = parseInt(pick(m), 10); break; }
+    }
+  }
+
+  if (NUMERIC_FIELDS.every(f => out[f] == null)) return null;
+  return out;
+}
+
+/* -----------------------
+   確認用の候補
+----------------------- */
+export type FieldCandidate = {
+  field: FieldKey;
+  value: string | number;
+  // Tesseract の信頼度（0〜100）
+  confidence: number;
+  // 読み取り元の文字（前後を含む）
+  snippet: string;
+  // 画像名
+  source: string;
+  method: "layout" | "text" | "segment";
+};
+
+// 行ごとの文字と信頼度（Tesseract の Line）
+export type TextLine = { text?: string; confidence?: number };
+
+// 候補の文字を含む行の信頼度。見つからなければ全体の信頼度
+function lineConfidence(snippet: string, lines: TextLine[], fallback: number) {
+  const key = snippet.replace(/\s/g, "");
+  const hit = lines.find(l => normalizeOcrText(l.text ?? "").replace(/\s/g, "").includes(key));
+  return hit?.confidence ?? fallback;
+}
+
+/**
+ * テキスト読み取りで見つかる候補をすべて挙げる（parseFromText は先頭の1つだけ使う）。
+ */
+export function textCandidates(
+  raw: string,
+  modelNames: string[],
+  lines: TextLine[],
+  pageConfidence: number,
+  source: string,
+): FieldCandidate[] {
+  if (!raw) return [];
+  const text = normalizeOcrText(raw);
+  const out: FieldCandidate[] = [];
+  const seen = new Set<string>();
+  const push = (c: Omit<FieldCandidate, "source" | "method">) => {
+    const k = `${c.field}:${c.value}`;
+    if (seen.has(k)) return;
+    seen.add(k);
+    out.push({ ...c, source, method: "text" });
+  };
+
+  const modelKey = detectModel(text, modelNames);
+  if (modelKey) {
+    push({ field: "modelKey", value: modelKey, confidence: lineConfidence(modelKey.toLowerCase(), lines, pageConfidence), snippet: modelKey });
+  }
+  for (const f of NUMERIC_FIELDS) {
+    for (const { re, pick } of TEXT_PATTERNS[f]) {
+      for (const m of text.matchAll(new RegExp(re.source, "g"))) {
+        const at = m.index ?? 0;
+        const snippet = text.slice(Math.max(0, at - 6), at + m[0].length + 6).replace(/\n/g, " ").trim();
+        push({
+          field: f,
+          value: parseInt(pick(m), 10),
+          confidence: lineConfidence(m[0], lines, pageConfidence),
+          snippet,
+        });
+      }
+    }
+  }
+  return out;
+}
+
+/* -----------------------
+   複数画像の結果をまとめる
+----------------------- */
+export type ParsedSource = { source: string; parsed: ParsedFields | null };
+export type MergeConflict = {
+  field: FieldKey;
+  values: { value: string | number; sources: string[] }[];
+};
+export type MergeResult = {
+  // 食い違いの無かった項目だけ
+  merged: ParsedFields;
+  // 項目ごとの読み取り元（画像名）
+  from: Partial<Record<FieldKey, string[]>>;
+  conflicts: MergeConflict[];
+};
+
+/**
+ * 画像ごとの抽出結果を項目単位でまとめる。
+ * 同じ項目で値が食い違った場合は後勝ちにせず、merged から外して conflicts に入れる。
+ */
+export function mergeParsed(items: ParsedSource[]): MergeResult {
+  const keys = Object.keys(FIELD_LABELS) as FieldKey[];
+  const merged: ParsedFields = {};
+  const from: MergeResult["from"] = {};
+  const conflicts: MergeConflict[] = [];
+
+  for (const key of keys) {
+    const byValue = new Map<string | number, string[]>();
+    for (const { source, parsed } of items) {
+      const v = parsed?.[key];
+      if (v == null) continue;
+      byValue.set(v, [...(byValue.get(v) ?? []), source]);
+    }
+    if (byValue.size === 0) continue;
+    if (byValue.size === 1) {
+      const [[value, sources]] = byValue;
+      (merged as Record<FieldKey, string | number>)[key] = value;
+      from[key] = sources;
+    } else {
+      conflicts.push({
+        field: key,
+        values: Array.from(byValue, ([value, sources]) => ({ value, sources })),
+      });
+    }
+  }
+  return { merged, from, conflicts };
+}
@@ -0,0 +1,87 @@
+import Tesseract from "tesseract.js";
+
+/* -----------------------
+   OCR の worker（1つだけ起動して使い回す・中止できる）
+   worker・core・言語データは public/tesseract/ から読む（scripts/copy-ocr-assets.mjs）
+----------------------- */
+
+const BASE = `${import.meta.env.BASE_URL}tesseract/`;
+const LANGS = "jpn+eng";
+
+export type OcrStatus = { status: string; progress: number };
+
+let workerPromise: Promise<Tesseract.Worker> | null = null;
+let listener: ((m: OcrStatus) => void) | null = null;
+// 実行中の待ち（起動 or 読み取り）を中止で打ち切るための reject
+let abortCurrent: ((e: Error) => void) | null = null;
+
+const CANCELLED = "OCR_CANCELLED";
+
+export function isOcrCancelled(e: unknown) {
+  return e instanceof Error && e.name === CANCELLED;
+}
+
+// 進捗の受け取り先（worker は使い回すので差し替え式）
+export function setOcrListener(fn: ((m: OcrStatus) => void) | null) {
+  listener = fn;
+}
+
+function getWorker() {
+  if (!workerPromise) {
+    workerPromise = Tesseract.createWorker(LANGS, 1, {
+      workerPath: `${BASE}worker.min.js`,
+      corePath: `${BASE}core`,
+      langPath: `${BASE}lang`,
+      gzip: true,
+      // 言語データは同じ端末から読むので IndexedDB への二重保存はしない
+      cacheMethod: "none",
+      logger: m => {
+        if (m.status) listener?.({ status: m.status, progress: m.progress ?? 0 });
+      },
+    });
+    // 起動に失敗したら次回は作り直す
+    workerPromise.catch(() => { workerPromise = null; });
+  }
+  return workerPromise;
+}
+
+// 中止できる形で待つ
+function abortable<T>(p: Promise<T>) {
+  return new Promise<T>((resolve, reject) => {
+    abortCurrent = reject;
+    p.then(resolve, reject).finally(() => {
+      if (abortCurrent === reject) abortCurrent = null;
+    });
+  });
+}
+
+/**
+ * 先に worker を起動しておく（画面を開いた直後などに呼ぶと 1 枚目が速い）
+ */
+export function warmUpOcr() {
+  getWorker().catch(() => {});
+}
+
+/**
+ * 1 枚読み取る。単語の座標も欲しいので blocks も出力させる。
+ */
+export async function recognizeImage(image: Tesseract.ImageLike) {
+  const worker = await abortable(getWorker());
+  return abortable(worker.recognize(image, {}, { text: true, blocks: true }));
+}
+
+/**
+ * 読み取りを中止する。途中の処理は止められないので worker ごと捨て、次回は作り直す。
+ */
+export function cancelOcr() {
+  const abort = abortCurrent;
+  const w = workerPromise;
+  abortCurrent = null;
+  workerPromise = null;
+  w?.then(x => x.terminate()).catch(() => {});
+  if (abort) {
+    const e = new Error("読み取りを中止しました");
+    e.name = CANCELLED;
+    abort(e);
+  }
+}
@@ -0,0 +1,281 @@
+/* -----------------------
+   OCR 前の画像前処理（canvas）
+   切り抜き → 回転・傾き補正 → 拡大 → グレースケール → コントラスト → 反転 → 二値化
+----------------------- */
+
+// 元画像に対する相対座標（0〜1）
+export type CropRect = { x: number; y: number; w: number; h: number };
+
+export type PreprocessOptions = {
+  enabled: boolean;
+  // 90度単位の回転
+  rotate: 0 | 90 | 180 | 270;
+  // 微調整（度、時計回りが正）
+  angle: number;
+  // 文字行の傾きを推定して補正
+  deskew: boolean;
+  grayscale: boolean;
+  // 2%〜98%点を 0〜255 に引き伸ばす
+  contrast: boolean;
+  // 暗い背景に明るい文字（データカウンター・ダークモード）なら反転
+  invert: "auto" | "on" | "off";
+  // 適応的二値化（周囲 blockSize px の平均 − thresholdC より暗ければ黒）
+  threshold: boolean;
+  blockSize: number;
+  thresholdC: number;
+  upscale: "auto" | 1 | 2 | 3;
+};
+
+export const DEFAULT_PREPROCESS: PreprocessOptions = {
+  enabled: true,
+  rotate: 0,
+  angle: 0,
+  deskew: true,
+  grayscale: true,
+  contrast: true,
+  invert: "auto",
+  threshold: false,
+  blockSize: 31,
+  thresholdC: 10,
+  upscale: "auto",
+};
+
+export type PreprocessInfo = {
+  // 実際にかけた回転（度、傾き補正込み）
+  angle: number;
+  skew: number;
+  inverted: boolean;
+  scale: number;
+  width: number;
+  height: number;
+};
+
+type Source = CanvasImageSource & { width: number; height: number };
+
+// 拡大後の上限（メモリ対策）
+const MAX_PIXELS = 4_000_000;
+// 自動拡大の目標幅
+const AUTO_TARGET_WIDTH = 1400;
+const MAX_SKEW_DEG = 10;
+
+function makeCanvas(w: number, h: number) {
+  const c = document.createElement("canvas");
+  c.width = Math.max(1, Math.round(w));
+  c.height = Math.max(1, Math.round(h));
+  return c;
+}
+
+function ctx2d(c: HTMLCanvasElement) {
+  const ctx = c.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("canvas 2D が使えません");
+  return ctx;
+}
+
+function cropToCanvas(src: Source, crop: CropRect | null) {
+  const sx = crop ? crop.x * src.width : 0;
+  const sy = crop ? crop.y * src.height : 0;
+  const sw = crop ? crop.w * src.width : src.width;
+  const sh = crop ? crop.h * src.height : src.height;
+  const c = makeCanvas(sw, sh);
+  ctx2d(c).drawImage(src, sx, sy, sw, sh, 0, 0, c.width, c.height);
+  return c;
+}
+
+// 回転（はみ出さないよう外接矩形に広げ、余白は背景色で埋める）
+function rotateCanvas(src: HTMLCanvasElement, deg: number, fill: string) {
+  if (Math.abs(deg) < 0.01) return src;
+  const rad = (deg * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  const w = src.width * cos + src.height * sin;
+  const h = src.width * sin + src.height * cos;
+  const c = makeCanvas(w, h);
+  const ctx = ctx2d(c);
+  ctx.fillStyle = fill;
+  ctx.fillRect(0, 0, c.width, c.height);
+  ctx.translate(c.width / 2, c.height / 2);
+  ctx.rotate(rad);
+  ctx.drawImage(src, -src.width / 2, -src.height / 2);
+  return c;
+}
+
+function scaleCanvas(src: HTMLCanvasElement, factor: number) {
+  if (Math.abs(factor - 1) < 0.01) return src;
+  const c = makeCanvas(src.width * factor, src.height * factor);
+  const ctx = ctx2d(c);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(src, 0, 0, c.width, c.height);
+  return c;
+}
+
+function toGray(img: ImageData) {
+  const { data } = img;
+  const gray = new Float32Array(img.width * img.height);
+  for (let i = 0, j = 0; i < data.length; i += 4, j++) {
+    gray[j] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return gray;
+}
+
+function percentile(gray: Float32Array, q: number) {
+  const hist = new Uint32Array(256);
+  for (const v of gray) hist[Math.min(255, Math.max(0, v | 0))]++;
+  const target = q * gray.length;
+  let acc = 0;
+  for (let i = 0; i < 256; i++) {
+    acc += hist[i];
+    if (acc >= target) return i;
+  }
+  return 255;
+}
+
+function stretchContrast(gray: Float32Array) {
+  const lo = percentile(gray, 0.02);
+  const hi = percentile(gray, 0.98);
+  if (hi - lo < 8) return;
+  const k = 255 / (hi - lo);
+  for (let i = 0; i < gray.length; i++) gray[i] = Math.min(255, Math.max(0, (gray[i] - lo) * k));
+}
+
+// 背景（中央値）が暗ければ明るい文字とみなす
+function looksDarkBackground(gray: Float32Array) {
+  return percentile(gray, 0.5) < 110;
+}
+
+/**
+ * 適応的二値化。積分画像で周囲 block×block の平均を求め、平均 − C より暗い画素を黒にする。
+ */
+function adaptiveThreshold(gray: Float32Array, w: number, h: number, block: number, C: number) {
+  const integral = new Float64Array((w + 1) * (h + 1));
+  for (let y = 0; y < h; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < w; x++) {
+      rowSum += gray[y * w + x];
+      integral[(y + 1) * (w + 1) + (x + 1)] = integral[y * (w + 1) + (x + 1)] + rowSum;
+    }
+  }
+  const r = Math.max(1, Math.floor(block / 2));
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    const y0 = Math.max(0, y - r), y1 = Math.min(h - 1, y + r);
+    for (let x = 0; x < w; x++) {
+      const x0 = Math.max(0, x - r), x1 = Math.min(w - 1, x + r);
+      const area = (x1 - x0 + 1) * (y1 - y0 + 1);
+      const sum =
+        integral[(y1 + 1) * (w + 1) + (x1 + 1)] -
+        integral[y0 * (w + 1) + (x1 + 1)] -
+        integral[(y1 + 1) * (w + 1) + x0] +
+        integral[y0 * (w + 1) + x0];
+      out[y * w + x] = gray[y * w + x] < sum / area - C ? 0 : 255;
+    }
+  }
+  return out;
+}
+
+/**
+ * 文字行の傾き（度）を推定する。縮小画像の「文字らしい画素」を角度ごとに行方向へ投影し、
+ * ヒストグラムが一番尖る角度を採用。戻り値はそのまま回転に足せば水平になる向き。
+ */
+export function estimateSkew(src: HTMLCanvasElement) {
+  const k = Math.min(1, 300 / Math.max(src.width, src.height));
+  const small = scaleCanvas(src, k);
+  const w = small.width, h = small.height;
+  const gray = toGray(ctx2d(small).getImageData(0, 0, w, h));
+  const bg = percentile(gray, 0.5);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (Math.abs(gray[y * w + x] - bg) > 40) { xs.push(x); ys.push(y); }
+    }
+  }
+  if (xs.length < 50) return 0;
+
+  const diag = Math.ceil(Math.hypot(w, h));
+  let best = 0;
+  let bestScore = -1;
+  for (let deg = -MAX_SKEW_DEG; deg <= MAX_SKEW_DEG; deg += 0.5) {
+    const t = (deg * Math.PI) / 180;
+    const sin = Math.sin(t), cos = Math.cos(t);
+    const bins = new Uint32Array(diag * 2 + 1);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] * cos - xs[i] * sin) + diag]++;
+    }
+    let score = 0;
+    for (const b of bins) score += b * b;
+    if (score > bestScore) { bestScore = score; best = deg; }
+  }
+  return -best;
+}
+
+/**
+ * 前処理をまとめてかける。OCR にはそのまま canvas を渡せる。
+ */
+export function preprocessImage(
+  src: Source,
+  opts: PreprocessOptions,
+  crop: CropRect | null,
+): { canvas: HTMLCanvasElement; info: PreprocessInfo } {
+  let c = cropToCanvas(src, crop);
+
+  // 回転前に背景色を見ておき、回転でできる余白を同じ色で埋める
+  const bgDark = looksDarkBackground(toGray(ctx2d(c).getImageData(0, 0, c.width, c.height)));
+  const fill = bgDark ? "#000" : "#fff";
+
+  c = rotateCanvas(c, opts.rotate, fill);
+  const skew = opts.deskew ? estimateSkew(c) : 0;
+  const angle = opts.angle + skew;
+  c = rotateCanvas(c, angle, fill);
+
+  let scale = opts.upscale === "auto"
+    ? Math.min(3, Math.max(1, AUTO_TARGET_WIDTH / c.width))
+    : opts.upscale;
+  scale = Math.min(scale, Math.sqrt(MAX_PIXELS / (c.width * c.height)));
+  scale = Math.max(scale, 0.1);
+  c = scaleCanvas(c, scale);
+
+  const w = c.width, h = c.height;
+  const ctx = ctx2d(c);
+  const img = ctx.getImageData(0, 0, w, h);
+  const useGray = opts.grayscale || opts.threshold;
+  let inverted = false;
+
+  if (useGray) {
+    let gray = toGray(img);
+    if (opts.contrast) stretchContrast(gray);
+    inverted = opts.invert === "on" || (opts.invert === "auto" && looksDarkBackground(gray));
+    if (inverted) for (let i = 0; i < gray.length; i++) gray[i] = 255 - gray[i];
+    if (opts.threshold) {
+      const block = Math.max(3, Math.round(opts.blockSize * Math.max(1, scale)) | 1);
+      gray = adaptiveThreshold(gray, w, h, block, opts.thresholdC);
+    }
+    const { data } = img;
+    for (let i = 0, j = 0; i < data.length; i += 4, j++) {
+      data[i] = data[i + 1] = data[i + 2] = gray[j];
+      data[i + 3] = 255;
+    }
+  } else {
+    inverted = opts.invert === "on" || (opts.invert === "auto" && bgDark);
+    if (inverted) {
+      const { data } = img;
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] = 255 - data[i];
+        data[i + 1] = 255 - data[i + 1];
+        data[i + 2] = 255 - data[i + 2];
+      }
+    }
+  }
+  ctx.putImageData(img, 0, 0);
+
+  return {
+    canvas: c,
+    info: { angle: opts.rotate + angle, skew, inverted, scale, width: w, height: h },
+  };
+}
+
+// File → 描画できる画像（向きは EXIF に従う）
+export function loadImageSource(file: Blob) {
+  return createImageBitmap(file, { imageOrientation: "from-image" });
+}
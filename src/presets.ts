@@ -0,0 +1,64 @@
+import type { Premise } from "./calc.ts";
+import bundledCatalogText from "./specs.json?raw";
+import {
+  loadStoredCatalogText,
+  parseCatalogText,
+  type SettingTable,
+  type SpecCatalog,
+} from "./specCatalog.ts";
+
+export type { SettingTable } from "./specCatalog.ts";
+
+/* -----------------------
+   機種プリセット（specs.json のカタログから作る）
+----------------------- */
+
+// 組み込み・カスタム共通のプリセット（カスタムは設定別テーブルを持たないことがある）
+export type MachinePreset = Premise & { settings?: SettingTable };
+export type PresetMap = Record<string, MachinePreset>;
+export type PresetKey = string;
+
+// 機種名 → 別表記（OCR の機種名照合に使う）
+export type ModelAliases = Record<string, readonly string[]>;
+
+const bundled = parseCatalogText(bundledCatalogText);
+// 組み込みのカタログが壊れているのはビルドの誤りなので、ここで止める
+if (!bundled.catalog) throw new Error(`specs.json: ${bundled.errors.join(" / ")}`);
+export const BUNDLED_CATALOG: SpecCatalog = bundled.catalog;
+
+// 取り込んだカタログが読めて、組み込みより新しい（同じ日を含む）ならそちらを使う
+function activeCatalog(): { catalog: SpecCatalog; errors: string[]; stored: boolean } {
+  const text = loadStoredCatalogText();
+  if (text == null) return { catalog: BUNDLED_CATALOG, errors: bundled.errors, stored: false };
+  const r = parseCatalogText(text);
+  if (!r.catalog) return { catalog: BUNDLED_CATALOG, errors: [`取り込んだカタログを使えません: ${r.errors.join(" / ")}`], stored: false };
+  if (r.catalog.revision < BUNDLED_CATALOG.revision) {
+    return {
+      catalog: BUNDLED_CATALOG,
+      errors: [`取り込んだカタログ（${r.catalog.revision}）は組み込み（${BUNDLED_CATALOG.revision}）より古いので使いません`],
+      stored: false,
+    };
+  }
+  return { catalog: r.catalog, errors: r.errors, stored: true };
+}
+
+const active = activeCatalog();
+export const CATALOG: SpecCatalog = active.catalog;
+// 読み込み時の警告（飛ばした機種など）
+export const CATALOG_ERRORS: readonly string[] = active.errors;
+export const USING_STORED_CATALOG = active.stored;
+
+export const PRESETS: Readonly<PresetMap> = Object.fromEntries(
+  CATALOG.models.map(m => [m.name, { ...m.premise, settings: m.settings }]),
+);
+export const MODEL_ALIASES: ModelAliases = Object.fromEntries(CATALOG.models.map(m => [m.name, m.aliases]));
+// 数値を確かめていない機種の注意書き
+export const UNVERIFIED_NOTES: Readonly<Record<string, string>> = Object.fromEntries(
+  CATALOG.models.filter(m => !m.verified).map(m => [m.name, m.note ?? "数値を確かめていない目安です。"]),
+);
+
+export const DEFAULT_MODEL: PresetKey = CATALOG.default;
+
+export function isBuiltinPreset(name: string): name is PresetKey {
+  return Object.prototype.hasOwnProperty.call(PRESETS, name);
+}
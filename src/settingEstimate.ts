@@ -0,0 +1,107 @@
+import type { SettingTable } from "./presets.ts";
+
+/* -----------------------
+   設定判別（ベイズ推定）
+----------------------- */
+
+export type SettingFactor = "big" | "reg" | "grape";
+
+export const FACTOR_LABELS: Record<SettingFactor, string> = {
+  big: "BIG",
+  reg: "REG",
+  grape: "ぶどう",
+};
+
+export type SettingEstimate = {
+  // 設定1〜6の事後確率（合計1）
+  posterior: number[];
+  // 要素ごとの対数尤度（各要素で最大値を0に揃えたもの）
+  logLik: Record<SettingFactor, number[]>;
+  // 要素ごとの影響度（対数尤度の幅の割合、合計1）
+  weight: Record<SettingFactor, number>;
+  // 推定を一番動かしている要素
+  dominant: SettingFactor | null;
+};
+
+export type SettingObservation = {
+  G: number;
+  big: number;
+  reg: number;
+  // 逆算ぶどう回数（小数可）
+  grapes: number;
+  // うちチェリー重複の BIG・REG 回数（分かるときだけ）
+  bigCherry?: number;
+  regCherry?: number;
+};
+
+// 回数 k が 1/denom の二項分布に従うときの対数尤度（定数項は省略）
+function binomialLogLik(k: number, n: number, denom: number) {
+  const p = 1 / denom;
+  const kk = Math.min(Math.max(k, 0), n);
+  return kk * Math.log(p) + (n - kk) * Math.log(1 - p);
+}
+
+// ボーナスの対数尤度。重複回数と重複の分母がそろえば単独・重複に分けて掛け合わせる
+function bonusLogLik(total: number, cherryCount: number | undefined, n: number, denom: number, cherryDenom?: number) {
+  if (cherryCount == null || !(cherryDenom != null && cherryDenom > denom)) return binomialLogLik(total, n, denom);
+  const soloDenom = 1 / (1 / denom - 1 / cherryDenom);
+  return binomialLogLik(total - cherryCount, n, soloDenom) + binomialLogLik(cherryCount, n, cherryDenom);
+}
+
+function normalizeLog(values: number[]) {
+  const max = Math.max(...values);
+  return values.map(v => v - max);
+}
+
+/**
+ * G・BIG・REG・逆算ぶどう回数から設定1〜6の事後確率を求める。
+ * BIG・REG は単独/チェリー重複の内訳と設定表の重複分母があれば分けて評価する。
+ * 事前分布は prior（省略時は一様）。
+ */
+export function estimateSetting(
+  obs: SettingObservation,
+  table: SettingTable,
+  prior: number[] = [1, 1, 1, 1, 1, 1],
+): SettingEstimate | null {
+  const n = Math.floor(obs.G);
+  if (!(n > 0)) return null;
+
+  const logLik: Record<SettingFactor, number[]> = {
+    big: normalizeLog(table.big.map((d, i) => bonusLogLik(obs.big, obs.bigCherry, n, d, table.bigCherry?.[i]))),
+    reg: normalizeLog(table.reg.map((d, i) => bonusLogLik(obs.reg, obs.regCherry, n, d, table.regCherry?.[i]))),
+    grape: normalizeLog(table.grape.map(d => binomialLogLik(obs.grapes, n, d))),
+  };
+
+  const logPost = prior.map((pr, i) =>
+    Math.log(pr) + logLik.big[i] + logLik.reg[i] + logLik.grape[i]
+  );
+  const norm = normalizeLog(logPost).map(Math.exp);
+  const sum = norm.reduce((a, b) => a + b, 0);
+  const posterior = norm.map(v => v / sum);
+
+  const spread = (xs: number[]) => Math.max(...xs) - Math.min(...xs);
+  const spreads: Record<SettingFactor, number> = {
+    big: spread(logLik.big),
+    reg: spread(logLik.reg),
+    grape: spread(logLik.grape),
+  };
+  const total = spreads.big + spreads.reg + spreads.grape;
+  const weight: Record<SettingFactor, number> = {
+    big: total > 0 ? spreads.big / total : 0,
+    reg: total > 0 ? spreads.reg / total : 0,
+    grape: total > 0 ? spreads.grape / total : 0,
+  };
+
+  let dominant: SettingFactor | null = null;
+  if (total > 0) {
+    dominant = (Object.keys(spreads) as SettingFactor[])
+      .reduce((a, b) => (spreads[b] > spreads[a] ? b : a));
+  }
+
+  return { posterior, logLik, weight, dominant };
+}
+
+// 事後確率の期待設定（1〜6）
+export function expectedSetting(posterior: number[]) {
+  return posterior.reduce((acc, p, i) => acc + p * (i + 1), 0);
+}
@@ -0,0 +1,322 @@
+import type { CropRect } from "./preprocess.ts";
+import type { FieldCandidate, ParsedFields } from "./ocrParse.ts";
+
+/* -----------------------
+   データカウンターの 7 セグメント数字の読み取り（canvas の画素だけで判定）
+   範囲を切り出す → 明るさで二値化 → 斜体を戻す → 桁に分ける → 7 本の点灯を見る
+----------------------- */
+
+// 範囲を指定できる項目
+export const SEG_FIELDS = ["G", "big", "reg"] as const;
+export type SegField = (typeof SEG_FIELDS)[number];
+// 元画像に対する相対座標（前処理の切り抜きと同じ）
+export type SegRegions = Partial<Record<SegField, CropRect>>;
+
+export type SegDigit = { char: string; confidence: number };
+export type SegReading = {
+  field: SegField;
+  // 読めなかった桁は「?」
+  text: string;
+  value: number | null;
+  digits: SegDigit[];
+  // 0〜100（OCR の信頼度とそろえる）
+  confidence: number;
+};
+
+// 点灯パターン（a b c d e f g の順。a=上 b=右上 c=右下 d=下 e=左下 f=左上 g=中央）
+const PATTERNS: [string, string][] = [
+  ["1111110", "0"],
+  ["0110000", "1"],
+  ["1101101", "2"],
+  ["1111001", "3"],
+  ["0110011", "4"],
+  ["1011011", "5"],
+  ["1011111", "6"],
+  ["0011111", "6"], // 上の無い 6
+  ["1110000", "7"],
+  ["1110010", "7"], // 左上のある 7
+  ["1111111", "8"],
+  ["1111011", "9"],
+  ["1110011", "9"], // 下の無い 9
+];
+
+// 各セグメントを見る範囲（桁の枠に対する相対位置 u=横 v=縦）
+const ZONES: { u: [number, number]; v: [number, number]; dir: "h" | "v" }[] = [
+  { u: [0.35, 0.65], v: [0, 0.18], dir: "h" },    // a
+  { u: [0.7, 1], v: [0.2, 0.4], dir: "v" },       // b
+  { u: [0.7, 1], v: [0.6, 0.8], dir: "v" },       // c
+  { u: [0.35, 0.65], v: [0.82, 1], dir: "h" },    // d
+  { u: [0, 0.3], v: [0.6, 0.8], dir: "v" },       // e
+  { u: [0, 0.3], v: [0.2, 0.4], dir: "v" },       // f
+  { u: [0.35, 0.65], v: [0.41, 0.59], dir: "h" }, // g
+];
+// セグメントの長さ方向にこの割合以上点いていれば点灯
+const LIT_COVERAGE = 0.5;
+// 高さに対する幅がこれ未満の桁は「1」
+const ONE_MAX_ASPECT = 0.35;
+// 桁の幅の下限（高さに対する割合。7 と 1 しかない数字でも枠を広げられるように）
+const MIN_CELL_ASPECT = 0.5;
+// 一番高い桁に対してこれより低いものは小数点・汚れとみなす
+const MIN_DIGIT_HEIGHT = 0.5;
+// 斜体の補正を試す範囲（1px 下がるごとの横ずれ）
+const MAX_SLANT = 0.3;
+const SLANT_STEP = 0.02;
+// 桁の区切りを見るときにドットのすき間を埋める膨張の半径（高さに対する割合）
+const DILATE_RATIO = 0.04;
+// 列の点灯画素が高さのこの割合以下なら空き列（ノイズで桁がつながらないように）
+const EMPTY_COLUMN = 0.04;
+// 判定に使う高さ（px）
+const WORK_HEIGHT = 64;
+
+type Mask = { data: Uint8Array; w: number; h: number };
+
+// 大津の方法で二値化のしきい値を決める
+function otsu(gray: Float32Array) {
+  const hist = new Float64Array(256);
+  for (const v of gray) hist[Math.min(255, Math.max(0, v | 0))]++;
+  const total = gray.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * hist[i];
+  // 分離度が同じしきい値が続くとき（きれいな画像）はその真ん中を取る
+  let sumB = 0, wB = 0, best = 0, bestEnd = 0, bestVar = -1;
+  for (let t = 0; t < 256; t++) {
+    wB += hist[t];
+    if (wB === 0) continue;
+    const wF = total - wB;
+    if (wF === 0) break;
+    sumB += t * hist[t];
+    const mB = sumB / wB;
+    const mF = (sumAll - sumB) / wF;
+    const between = wB * wF * (mB - mF) ** 2;
+    if (between > bestVar) { bestVar = between; best = bestEnd = t; }
+    else if (between === bestVar) bestEnd = t;
+  }
+  return (best + bestEnd) / 2;
+}
+
+// 3×3 の平均でざらつき（撮影のノイズ）をならす
+function blur(gray: Float32Array, w: number, h: number) {
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0, n = 0;
+      for (let yy = Math.max(0, y - 1); yy <= Math.min(h - 1, y + 1); yy++) {
+        for (let xx = Math.max(0, x - 1); xx <= Math.min(w - 1, x + 1); xx++) { sum += gray[yy * w + xx]; n++; }
+      }
+      out[y * w + x] = sum / n;
+    }
+  }
+  return out;
+}
+
+// 点灯している側（少ない方）を 1 にする。暗い数字の液晶でもそのまま使える
+function binarize(gray: Float32Array, w: number, h: number): Mask {
+  const t = otsu(gray);
+  let bright = 0;
+  for (const v of gray) if (v > t) bright++;
+  const litBright = bright <= gray.length / 2;
+  const data = new Uint8Array(w * h);
+  for (let i = 0; i < gray.length; i++) data[i] = (gray[i] > t) === litBright ? 1 : 0;
+  return { data, w, h };
+}
+
+// ドット式の LED のすき間を埋める（正方形の膨張）
+function dilate(m: Mask, r: number): Mask {
+  if (r <= 0) return m;
+  const { w, h } = m;
+  const tmp = new Uint8Array(w * h);
+  const out = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!m.data[y * w + x]) continue;
+      for (let dx = Math.max(0, x - r); dx <= Math.min(w - 1, x + r); dx++) tmp[y * w + dx] = 1;
+    }
+  }
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!tmp[y * w + x]) continue;
+      for (let dy = Math.max(0, y - r); dy <= Math.min(h - 1, y + r); dy++) out[dy * w + x] = 1;
+    }
+  }
+  return { data: out, w, h };
+}
+
+// 上ほど右にずれる斜体を、行ごとに横へずらして立てる
+function shear(m: Mask, slant: number): Mask {
+  if (slant === 0) return m;
+  const pad = Math.ceil(Math.abs(slant) * m.h);
+  const w = m.w + pad;
+  const data = new Uint8Array(w * m.h);
+  for (let y = 0; y < m.h; y++) {
+    const shift = Math.round(slant * (y - m.h)) + (slant > 0 ? pad : 0);
+    for (let x = 0; x < m.w; x++) {
+      if (m.data[y * m.w + x]) data[y * w + x + shift] = 1;
+    }
+  }
+  return { data, w, h: m.h };
+}
+
+// 列ごとの点灯画素数（ノイズ程度の列は 0 にする）
+function columnCounts(m: Mask) {
+  const cols = new Uint32Array(m.w);
+  for (let y = 0; y < m.h; y++) for (let x = 0; x < m.w; x++) cols[x] += m.data[y * m.w + x];
+  const floor = m.h * EMPTY_COLUMN;
+  for (let x = 0; x < m.w; x++) if (cols[x] <= floor) cols[x] = 0;
+  return cols;
+}
+
+/**
+ * 斜体の傾きを推定する。縦のセグメントが列にそろうと列ごとの点灯数が尖るので、
+ * 列ヒストグラムの二乗和が一番大きくなる傾きを採用（同点なら 0 に近い方）。
+ */
+function estimateSlant(m: Mask) {
+  let best = 0;
+  let bestScore = -1;
+  for (let i = 0; i <= Math.round(MAX_SLANT / SLANT_STEP); i++) {
+    for (const s of i === 0 ? [0] : [i * SLANT_STEP, -i * SLANT_STEP]) {
+      let score = 0;
+      for (const c of columnCounts(shear(m, s))) score += c * c;
+      if (score > bestScore) { bestScore = score; best = s; }
+    }
+  }
+  return best;
+}
+
+type Box = { x0: number; x1: number; y0: number; y1: number };
+
+// 空き列で桁に分け、低すぎるもの（小数点・汚れ）を除く
+function digitBoxes(m: Mask): Box[] {
+  const cols = columnCounts(m);
+  const boxes: Box[] = [];
+  for (let x = 0; x < m.w; x++) {
+    if (cols[x] === 0) continue;
+    const x0 = x;
+    while (x + 1 < m.w && cols[x + 1] > 0) x++;
+    let y0 = m.h, y1 = -1;
+    for (let y = 0; y < m.h; y++) {
+      for (let xx = x0; xx <= x; xx++) {
+        if (m.data[y * m.w + xx]) { y0 = Math.min(y0, y); y1 = Math.max(y1, y); break; }
+      }
+    }
+    boxes.push({ x0, x1: x, y0, y1 });
+  }
+  const tallest = Math.max(0, ...boxes.map(b => b.y1 - b.y0 + 1));
+  return boxes.filter(b => b.y1 - b.y0 + 1 >= tallest * MIN_DIGIT_HEIGHT && b.x1 - b.x0 >= 1);
+}
+
+// セグメントの範囲で、長さ方向の何割に点灯画素があるか
+function coverage(m: Mask, b: Box, zone: (typeof ZONES)[number]) {
+  const bw = b.x1 - b.x0 + 1, bh = b.y1 - b.y0 + 1;
+  const xa = b.x0 + Math.floor(zone.u[0] * bw), xb = b.x0 + Math.max(Math.floor(zone.u[0] * bw), Math.ceil(zone.u[1] * bw) - 1);
+  const ya = b.y0 + Math.floor(zone.v[0] * bh), yb = b.y0 + Math.max(Math.floor(zone.v[0] * bh), Math.ceil(zone.v[1] * bh) - 1);
+  const hit = (x: number, y: number) => m.data[y * m.w + x] === 1;
+  let lit = 0, total = 0;
+  if (zone.dir === "h") {
+    for (let x = xa; x <= xb; x++, total++) {
+      for (let y = ya; y <= yb; y++) if (hit(x, y)) { lit++; break; }
+    }
+  } else {
+    for (let y = ya; y <= yb; y++, total++) {
+      for (let x = xa; x <= xb; x++) if (hit(x, y)) { lit++; break; }
+    }
+  }
+  return total > 0 ? lit / total : 0;
+}
+
+function hamming(a: string, b: string) {
+  let d = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) d++;
+  return d;
+}
+
+// 1桁を判定。完全一致なら 95、1本違いで候補が1つに絞れれば 50、それ以外は読めない
+// cell は桁の幅。左の縦線の無い 7 は枠が狭くなるので、右端をそろえて桁の幅まで広げて見る
+function classify(m: Mask, b: Box, cell: number): SegDigit {
+  const bw = b.x1 - b.x0 + 1, bh = b.y1 - b.y0 + 1;
+  if (bw < bh * ONE_MAX_ASPECT) return { char: "1", confidence: 90 };
+  const box = { ...b, x0: Math.max(0, Math.min(b.x0, b.x1 - cell + 1)) };
+  const bits = ZONES.map(z => (coverage(m, box, z) >= LIT_COVERAGE ? "1" : "0")).join("");
+  const exact = PATTERNS.find(([p]) => p === bits);
+  if (exact) return { char: exact[1], confidence: 95 };
+  const near = new Set(PATTERNS.filter(([p]) => hamming(p, bits) === 1).map(([, c]) => c));
+  if (near.size === 1) return { char: [...near][0], confidence: 50 };
+  return { char: "?", confidence: 0 };
+}
+
+/**
+ * 明るさ（0〜255、行優先）の画像から数字列を読む。
+ * 画像はその項目の数字だけが入るように切り出しておく。
+ */
+export function readDigits(gray: Float32Array, w: number, h: number): SegDigit[] {
+  if (w < 2 || h < 2) return [];
+  const raw = binarize(blur(gray, w, h), w, h);
+  // 傾きは膨張前に測る（太らせると縦の線が列にそろったかどうか見分けにくい）
+  const slant = estimateSlant(raw);
+  // 桁の区切りは大きく膨張させた画像で、点灯の判定は少しだけ膨張させた画像で見る
+  const joined = shear(dilate(raw, Math.max(1, Math.round(h * DILATE_RATIO))), slant);
+  const mask = shear(dilate(raw, 1), slant);
+  const boxes = digitBoxes(joined);
+  const cell = Math.max(
+    0,
+    ...boxes.map(b => b.x1 - b.x0 + 1),
+    ...boxes.map(b => Math.round((b.y1 - b.y0 + 1) * MIN_CELL_ASPECT)),
+  );
+  return boxes.map(b => classify(mask, b, cell));
+}
+
+/* -----------------------
+   canvas から読む
+----------------------- */
+type Source = CanvasImageSource & { width: number; height: number };
+
+// 範囲を切り出して高さ WORK_HEIGHT にそろえ、明るさを取り出す
+// LED は赤・橙が多いので、明るさは輝度ではなく RGB の最大値で見る
+function regionBrightness(src: Source, rect: CropRect) {
+  const sw = rect.w * src.width, sh = rect.h * src.height;
+  const scale = WORK_HEIGHT / Math.max(1, sh);
+  const c = document.createElement("canvas");
+  c.width = Math.max(2, Math.round(sw * scale));
+  c.height = WORK_HEIGHT;
+  const ctx = c.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("canvas 2D が使えません");
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(src, rect.x * src.width, rect.y * src.height, sw, sh, 0, 0, c.width, c.height);
+  const { data } = ctx.getImageData(0, 0, c.width, c.height);
+  const gray = new Float32Array(c.width * c.height);
+  for (let i = 0, j = 0; i < data.length; i += 4, j++) gray[j] = Math.max(data[i], data[i + 1], data[i + 2]);
+  return { gray, w: c.width, h: c.height };
+}
+
+export function readSegmentRegion(src: Source, field: SegField, rect: CropRect): SegReading {
+  const { gray, w, h } = regionBrightness(src, rect);
+  const digits = readDigits(gray, w, h);
+  const text = digits.map(d => d.char).join("");
+  const ok = digits.length > 0 && !text.includes("?");
+  return {
+    field,
+    text,
+    value: ok ? parseInt(text, 10) : null,
+    digits,
+    confidence: digits.length > 0 ? Math.min(...digits.map(d => d.confidence)) : 0,
+  };
+}
+
+/**
+ * 指定した範囲ごとに読み、OCR と同じ形（項目の値・確認パネルの候補）で返す。
+ */
+export function recognizeSevenSegment(src: Source, regions: SegRegions, source: string) {
+  const readings: SegReading[] = [];
+  const parsed: ParsedFields = {};
+  const candidates: FieldCandidate[] = [];
+  for (const field of SEG_FIELDS) {
+    const rect = regions[field];
+    if (!rect) continue;
+    const r = readSegmentRegion(src, field, rect);
+    readings.push(r);
+    if (r.value == null) continue;
+    parsed[field] = r.value;
+    candidates.push({ field, value: r.value, confidence: r.confidence, snippet: r.text, source, method: "segment" });
+  }
+  return { readings, parsed, candidates };
+}
@@ -0,0 +1,95 @@
+import { SPLIT_KEYS, grapePayOf, type CaptureInput, type Premise } from "./calc.ts";
+import { BUNDLED_CATALOG, isBuiltinPreset, type MachinePreset } from "./presets.ts";
+
+/* -----------------------
+   共有リンク（URL の # 以降に機種・入力・変更した前提を詰める）
+   例: #v1&m=0&g=8000&b=30&r=25&d=1200&ba=240.5
+----------------------- */
+const SHARE_VERSION = "v1";
+
+// 前提の短いキー（既定値と違うものだけ載せる）
+const PREMISE_PARAMS: Record<keyof Premise, string> = {
+  replay: "rp",
+  cherry: "ch",
+  bell: "be",
+  piero: "pi",
+  bigAvg: "ba",
+  regAvg: "ra",
+  cherryPay: "cp",
+  bellPay: "bp",
+  pieroPay: "pp",
+  grapePay: "gp",
+};
+const INPUT_PARAMS: Record<keyof CaptureInput, string> = {
+  G: "g", big: "b", reg: "r", diff: "d",
+  bigSolo: "bs", bigCherry: "bc", regSolo: "rs", regCherry: "rc",
+};
+
+// 番号は組み込みカタログの並び（取り込んだカタログでは変わらない）
+const BUILTIN_NAMES = BUNDLED_CATALOG.models.map(m => m.name);
+
+export type SharedState = {
+  // 共有元の機種名（この端末に無いこともある）
+  modelKey: string;
+  input: Partial<CaptureInput>;
+  premise: Partial<Premise>;
+};
+
+/**
+ * 共有用の # 部分を作る。組み込み機種は番号、それ以外は名前と前提すべてを載せる。
+ */
+export function encodeShare(modelKey: string, input: CaptureInput, premise: Premise, preset?: MachinePreset) {
+  const q = new URLSearchParams();
+  const builtin = isBuiltinPreset(modelKey) && BUILTIN_NAMES.includes(modelKey);
+  q.set("m", builtin ? String(BUILTIN_NAMES.indexOf(modelKey)) : modelKey);
+  for (const [k, p] of Object.entries(INPUT_PARAMS) as [keyof CaptureInput, string][]) {
+    const v = input[k];
+    // 内訳の 0 は「重複なし」なので省かない
+    if (v != null && (v !== 0 || (SPLIT_KEYS as readonly string[]).includes(k))) q.set(p, String(v));
+  }
+  for (const [k, p] of Object.entries(PREMISE_PARAMS) as [keyof Premise, string][]) {
+    // カスタム機種は受け取る側に無いかもしれないので全部載せる
+    const v = premise[k];
+    const base = preset && (k === "grapePay" ? grapePayOf(preset) : preset[k]);
+    if (v != null && (!builtin || base !== v)) q.set(p, String(v));
+  }
+  return `#${SHARE_VERSION}&${q.toString()}`;
+}
+
+export function shareUrl(hash: string) {
+  return `${location.origin}${location.pathname}${location.search}${hash}`;
+}
+
+// # 部分を読む。共有リンクでなければ null
+export function decodeShare(hash: string): SharedState | null {
+  const body = hash.replace(/^#/, "");
+  if (!body.startsWith(`${SHARE_VERSION}&`)) return null;
+  const q = new URLSearchParams(body.slice(SHARE_VERSION.length + 1));
+  const m = q.get("m");
+  if (m == null) return null;
+  const modelKey = /^\d+$/.test(m) ? BUILTIN_NAMES[Number(m)] : m;
+  if (!modelKey) return null;
+
+  const num = (p: string) => {
+    const v = q.get(p);
+    const n = v == null ? NaN : Number(v);
+    return isFinite(n) ? n : undefined;
+  };
+  const input: Partial<CaptureInput> = {};
+  for (const [k, p] of Object.entries(INPUT_PARAMS) as [keyof CaptureInput, string][]) {
+    const n = num(p);
+    if (n != null && Number.isInteger(n) && (k === "diff" || n >= 0)) input[k] = n;
+  }
+  const premise: Partial<Premise> = {};
+  for (const [k, p] of Object.entries(PREMISE_PARAMS) as [keyof Premise, string][]) {
+    const n = num(p);
+    // 払い出しは 0 枚もある（使わない役）
+    if (n != null && (n > 0 || (n === 0 && k.endsWith("Pay")))) premise[k] = n;
+  }
+  return { modelKey, input, premise };
+}
+
+// 共有の # を消す（再読み込みで何度も聞かないように）
+export function clearShareHash() {
+  history.replaceState(null, "", `${location.pathname}${location.search}`);
+}
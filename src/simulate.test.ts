@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { runSimulation, type SimRequest } from "./simulate.ts";
+import { PRESETS } from "./presets.ts";
+
+// マイジャグラーV 設定6・チェリー狙い・6000G を 1000 回
+const preset = PRESETS["マイジャグラーV"];
+const req: SimRequest = {
+  g: 6000,
+  sessions: 1000,
+  seed: 12345,
+  probs: { big: preset.settings!.big[5], reg: preset.settings!.reg[5], grape: preset.settings!.grape[5] },
+  premise: preset,
+  capture: { cherry: 1, bell: 0, piero: 0 },
+};
+
+describe("runSimulation", () => {
+  const result = runSimulation(req);
+
+  it("同じ seed なら同じ結果になる", () => {
+    expect(runSimulation(req)).toEqual(result);
+    expect(runSimulation({ ...req, seed: req.seed + 1 })).not.toEqual(result);
+  });
+
+  it("seed と回数を決めれば平均・標準偏差・的中率が決まる", () => {
+    expect(result.mean).toBeCloseTo(5.66544, 4);
+    expect(result.sd).toBeCloseTo(0.15723, 4);
+    expect(result.coverage90).toBe(0.926);
+    expect(result.coverage95).toBe(0.973);
+    expect(result.zeroCount).toBe(0);
+  });
+
+  it("区間の的中率が 90%・95% に近い", () => {
+    // 1000 回なら的中率の揺らぎは ±1% 程度。区間はやや保守的なので上振れ側を広めに見る
+    expect(result.coverage90).toBeGreaterThan(0.87);
+    expect(result.coverage90).toBeLessThan(0.95);
+    expect(result.coverage95).toBeGreaterThan(0.93);
+    expect(result.coverage95).toBeLessThan(0.99);
+    // 推定の平均は真の値の近く
+    expect(Math.abs(result.bias)).toBeLessThan(0.05);
+  });
+});
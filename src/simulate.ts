@@ -0,0 +1,188 @@
+import {
+  BIG_PAY_SD,
+  REG_PAY_SD,
+  calcResultByCapture,
+  grapePayOf,
+  type Capture,
+  type ForwardProbs,
+  type Premise,
+} from "./calc.ts";
+
+/* -----------------------
+   逆算の精度シミュレーション
+   設定の確率で仮想の実戦（G・BIG・REG・差枚）を作り、同じ逆算に通して
+   推定ぶどう確率が真の値のまわりにどう散らばるかを見る
+----------------------- */
+
+export type SimRequest = {
+  g: number;
+  sessions: number;
+  // 同じ seed なら同じ結果になる
+  seed: number;
+  probs: ForwardProbs;
+  premise: Premise;
+  capture: Capture;
+};
+
+export type SimBin = { lo: number; hi: number; count: number };
+
+export type SimResult = {
+  request: SimRequest;
+  // 真のぶどう確率（分母）
+  trueProb: number;
+  // 推定（分母）の平均・中央値・標準偏差（ぶどう 0 回の回は除く）
+  mean: number;
+  median: number;
+  sd: number;
+  // 平均 − 真の値（分母）
+  bias: number;
+  // 真の値が 90%/95% 区間に入った割合
+  coverage90: number;
+  coverage95: number;
+  // 差枚が足りずぶどう 0 回になった回数
+  zeroCount: number;
+  bins: SimBin[];
+};
+
+// ワーカーとのやりとり
+export type SimMessage =
+  | { type: "progress"; done: number; total: number }
+  | { type: "done"; result: SimResult }
+  | { type: "error"; message: string };
+
+const HIST_BINS = 30;
+// 進捗を知らせる間隔（回）
+export const PROGRESS_EVERY = 200;
+
+// 32bit の種から作る軽い擬似乱数（mulberry32）
+export function createRng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// 標準正規乱数（Box–Muller）
+function gaussian(rng: () => number) {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+export type SimSession = { G: number; big: number; reg: number; diff: number; grapes: number };
+
+/**
+ * 1回分の実戦を 1G ずつ抽選して作る。役は排他、取りこぼした小役は 0 枚。
+ */
+export function simulateSession(
+  rng: () => number,
+  g: number,
+  probs: ForwardProbs,
+  premise: Premise,
+  capture: Capture,
+): SimSession {
+  const { replay, cherry, bell, piero, bigAvg, regAvg, cherryPay, bellPay, pieroPay } = premise;
+  const grapePay = grapePayOf(premise);
+  // 累積確率（BIG・REG・ぶどう・リプレイ・チェリー・ベル・ピエロの順）
+  const edges: number[] = [];
+  let acc = 0;
+  for (const d of [probs.big, probs.reg, probs.grape, replay, cherry, bell, piero]) {
+    acc += d > 0 ? 1 / d : 0;
+    edges.push(acc);
+  }
+  const [eBig, eReg, eGrape, eReplay, eCherry, eBell, ePiero] = edges;
+
+  let big = 0, reg = 0, grapes = 0;
+  let coinIn = 0, coinOut = 0;
+  for (let i = 0; i < g; i++) {
+    const r = rng();
+    if (r < eReplay && r >= eGrape) continue; // リプレイは投入なし・払い出しなし
+    coinIn += 3;
+    if (r < eBig) {
+      big++;
+      coinOut += Math.max(0, Math.round(bigAvg + BIG_PAY_SD * gaussian(rng)));
+    } else if (r < eReg) {
+      reg++;
+      coinOut += Math.max(0, Math.round(regAvg + REG_PAY_SD * gaussian(rng)));
+    } else if (r < eGrape) {
+      grapes++;
+      coinOut += grapePay;
+    } else if (r < eCherry) {
+      if (rng() < capture.cherry) coinOut += cherryPay;
+    } else if (r < eBell) {
+      if (rng() < capture.bell) coinOut += bellPay;
+    } else if (r < ePiero) {
+      if (rng() < capture.piero) coinOut += pieroPay;
+    }
+  }
+  return { G: g, big, reg, diff: coinOut - coinIn, grapes };
+}
+
+function quantile(sorted: number[], q: number) {
+  if (sorted.length === 0) return NaN;
+  const at = Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))));
+  return sorted[at];
+}
+
+// 1%〜99% の範囲を等分したヒストグラム（範囲外は両端に入れる）
+function histogram(values: number[], trueProb: number): SimBin[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  let lo = Math.min(quantile(sorted, 0.01), trueProb);
+  let hi = Math.max(quantile(sorted, 0.99), trueProb);
+  if (!(hi > lo)) { lo -= 0.05; hi += 0.05; }
+  const width = (hi - lo) / HIST_BINS;
+  const bins: SimBin[] = Array.from({ length: HIST_BINS }, (_, i) => ({
+    lo: lo + i * width,
+    hi: lo + (i + 1) * width,
+    count: 0,
+  }));
+  for (const v of values) {
+    const i = Math.min(HIST_BINS - 1, Math.max(0, Math.floor((v - lo) / width)));
+    bins[i].count++;
+  }
+  return bins;
+}
+
+/**
+ * sessions 回の仮想実戦を逆算して、推定ぶどう確率の分布をまとめる。
+ * onProgress は PROGRESS_EVERY 回ごとに呼ぶ（ワーカーから進捗を返す用）。
+ */
+export function runSimulation(req: SimRequest, onProgress?: (done: number) => void): SimResult {
+  const rng = createRng(req.seed);
+  const estimates: number[] = [];
+  let zeroCount = 0;
+  let in90 = 0, in95 = 0;
+
+  for (let n = 0; n < req.sessions; n++) {
+    const s = simulateSession(rng, req.g, req.probs, req.premise, req.capture);
+    const res = calcResultByCapture(s, req.premise, req.capture);
+    if (res.grapesCount > 0) estimates.push(res.grapeProb);
+    else zeroCount++;
+    const within = (level: 90 | 95) => res.ci[level].prob.lo <= req.probs.grape && req.probs.grape <= res.ci[level].prob.hi;
+    if (within(90)) in90++;
+    if (within(95)) in95++;
+    if (onProgress && (n + 1) % PROGRESS_EVERY === 0) onProgress(n + 1);
+  }
+
+  const count = estimates.length;
+  const mean = count > 0 ? estimates.reduce((a, b) => a + b, 0) / count : NaN;
+  const sd = count > 1 ? Math.sqrt(estimates.reduce((a, b) => a + (b - mean) ** 2, 0) / (count - 1)) : NaN;
+  const sorted = [...estimates].sort((a, b) => a - b);
+
+  return {
+    request: req,
+    trueProb: req.probs.grape,
+    mean,
+    median: quantile(sorted, 0.5),
+    sd,
+    bias: mean - req.probs.grape,
+    coverage90: req.sessions > 0 ? in90 / req.sessions : NaN,
+    coverage95: req.sessions > 0 ? in95 / req.sessions : NaN,
+    zeroCount,
+    bins: histogram(estimates, req.probs.grape),
+  };
+}
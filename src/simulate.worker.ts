@@ -0,0 +1,16 @@
+import { runSimulation, type SimMessage, type SimRequest } from "./simulate.ts";
+
+/* -----------------------
+   シミュレーション用ワーカー（画面を固めないよう別スレッドで回す）
+----------------------- */
+const post = (msg: SimMessage) => self.postMessage(msg);
+
+self.onmessage = (e: MessageEvent<SimRequest>) => {
+  const req = e.data;
+  try {
+    const result = runSimulation(req, done => post({ type: "progress", done, total: req.sessions }));
+    post({ type: "done", result });
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import bundledText from "./specs.json?raw";
+import { catalogToJson, parseCatalog, parseCatalogText } from "./specCatalog.ts";
+
+describe("parseCatalog", () => {
+  const bundled = parseCatalogText(bundledText);
+
+  it("組み込みのカタログは誤りなく読めて、未確認の機種には注意書きがある", () => {
+    expect(bundled.errors).toEqual([]);
+    expect(bundled.catalog?.models.filter(m => !m.verified).map(m => m.name)).toEqual([
+      "ネオアイムジャグラーEX",
+      "ウルトラミラクルジャグラー",
+      "ジャグラーガールズSS",
+      "ハナハナ系Aタイプ",
+    ]);
+    expect(bundled.catalog?.models.every(m => m.verified || m.note)).toBe(true);
+  });
+
+  it("書き出した JSON を読み直すと同じになる", () => {
+    expect(parseCatalogText(catalogToJson(bundled.catalog!)).catalog).toEqual(bundled.catalog);
+  });
+
+  it("誤りは場所付きで返し、その機種だけ飛ばす", () => {
+    const data = JSON.parse(bundledText);
+    data.models[2].settings.reg = [1, 2, 3];
+    data.models[3].roles.cherry = "x";
+    const r = parseCatalog(data);
+    expect(r.errors).toEqual([
+      "models[2].settings.reg: 設定1〜6の分母6個が必要です",
+      "models[3].roles.cherry: 1 より大きい数（1/x の x）が必要です",
+    ]);
+    expect(r.catalog?.models.length).toBe(data.models.length - 2);
+  });
+
+  it("読めない版は全体を使わない", () => {
+    expect(parseCatalog({ version: 2 }).catalog).toBeNull();
+  });
+});
@@ -0,0 +1,217 @@
+import type { Premise } from "./calc.ts";
+import { downloadBlob, trySetItem } from "./format.ts";
+
+/* -----------------------
+   機種スペックのカタログ（specs.json と取り込んだ JSON）
+   形式: { version, revision, default?, models: [{ name, aliases?, roles, payouts, bonusAvg, settings?, verified?, note? }] }
+----------------------- */
+const CATALOG_KEY = "jug-ocr-v1.2:catalog";
+// 読める形式の版（形を変えたら上げる）
+export const CATALOG_VERSION = 1;
+
+// 設定1〜6の分母（index 0 = 設定1）
+export type SettingTable = {
+  big: readonly number[];
+  reg: readonly number[];
+  grape: readonly number[];
+  // うちチェリー重複の分母（分かる機種だけ。単独は合算との差から求める）
+  bigCherry?: readonly number[];
+  regCherry?: readonly number[];
+};
+
+export type ModelSpec = {
+  name: string;
+  // OCR・データサイトでの別表記
+  aliases: string[];
+  premise: Premise;
+  settings?: SettingTable;
+  // 数値を確かめていない（目安）
+  verified: boolean;
+  note?: string;
+};
+
+export type SpecCatalog = {
+  version: number;
+  // 数値を更新した日（「2026-10-19」）。新しい方を使う
+  revision: string;
+  default: string;
+  models: ModelSpec[];
+};
+
+export type CatalogParse = {
+  // 形が読めなければ null（機種ごとの誤りはその機種だけ飛ばす）
+  catalog: SpecCatalog | null;
+  errors: string[];
+};
+
+const ROLE_KEYS = ["replay", "cherry", "bell", "piero"] as const;
+const PAYOUT_KEYS = ["cherry", "bell", "piero"] as const;
+const SETTING_KEYS = ["big", "reg", "grape"] as const;
+const OPTIONAL_SETTING_KEYS = ["bigCherry", "regCherry"] as const;
+const REVISION = /^\d{4}-\d{2}-\d{2}$/;
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v != null && !Array.isArray(v);
+
+// 分母（1 より大きい）
+function denom(v: unknown, path: string, errors: string[]) {
+  if (typeof v === "number" && v > 1 && isFinite(v)) return v;
+  errors.push(`${path}: 1 より大きい数（1/x の x）が必要です`);
+  return NaN;
+}
+// 枚数（0 以上）
+function coins(v: unknown, path: string, errors: string[]) {
+  if (typeof v === "number" && v >= 0 && isFinite(v)) return v;
+  errors.push(`${path}: 0 以上の枚数が必要です`);
+  return NaN;
+}
+function table(v: unknown, path: string, errors: string[]) {
+  if (Array.isArray(v) && v.length === 6 && v.every(x => typeof x === "number" && x > 1 && isFinite(x))) return v as number[];
+  errors.push(`${path}: 設定1〜6の分母6個が必要です`);
+  return null;
+}
+
+function parseModel(v: unknown, path: string): ModelSpec | string[] {
+  const errors: string[] = [];
+  if (!isObject(v)) return [`${path}: オブジェクトではありません`];
+  const name = typeof v.name === "string" ? v.name.trim() : "";
+  if (!name) errors.push(`${path}.name: 機種名がありません`);
+
+  let aliases: string[] = [];
+  if (v.aliases != null) {
+    if (Array.isArray(v.aliases) && v.aliases.every(a => typeof a === "string" && a.trim())) aliases = v.aliases.map(a => a.trim());
+    else errors.push(`${path}.aliases: 文字列の配列が必要です`);
+  }
+
+  const roles = isObject(v.roles) ? v.roles : {};
+  if (!isObject(v.roles)) errors.push(`${path}.roles: 小役の分母（${ROLE_KEYS.join(", ")}）がありません`);
+  const payouts = isObject(v.payouts) ? v.payouts : {};
+  if (!isObject(v.payouts)) errors.push(`${path}.payouts: 払い出し（${PAYOUT_KEYS.join(", ")}）がありません`);
+  const bonusAvg = isObject(v.bonusAvg) ? v.bonusAvg : {};
+  if (!isObject(v.bonusAvg)) errors.push(`${path}.bonusAvg: ボーナス平均枚数（big, reg）がありません`);
+
+  const premise: Premise = {
+    replay: denom(roles.replay, `${path}.roles.replay`, errors),
+    cherry: denom(roles.cherry, `${path}.roles.cherry`, errors),
+    bell: denom(roles.bell, `${path}.roles.bell`, errors),
+    piero: denom(roles.piero, `${path}.roles.piero`, errors),
+    bigAvg: coins(bonusAvg.big, `${path}.bonusAvg.big`, errors),
+    regAvg: coins(bonusAvg.reg, `${path}.bonusAvg.reg`, errors),
+    cherryPay: coins(payouts.cherry, `${path}.payouts.cherry`, errors),
+    bellPay: coins(payouts.bell, `${path}.payouts.bell`, errors),
+    pieroPay: coins(payouts.piero, `${path}.payouts.piero`, errors),
+  };
+  if (payouts.grape != null) premise.grapePay = coins(payouts.grape, `${path}.payouts.grape`, errors);
+
+  let settings: SettingTable | undefined;
+  if (v.settings != null) {
+    if (!isObject(v.settings)) {
+      errors.push(`${path}.settings: オブジェクトではありません`);
+    } else {
+      const s = v.settings;
+      const out: Partial<Record<keyof SettingTable, number[]>> = {};
+      for (const k of SETTING_KEYS) out[k] = table(s[k], `${path}.settings.${k}`, errors) ?? undefined;
+      for (const k of OPTIONAL_SETTING_KEYS) {
+        if (s[k] != null) out[k] = table(s[k], `${path}.settings.${k}`, errors) ?? undefined;
+      }
+      settings = out as SettingTable;
+    }
+  }
+  if (v.verified != null && typeof v.verified !== "boolean") errors.push(`${path}.verified: true か false が必要です`);
+  if (v.note != null && typeof v.note !== "string") errors.push(`${path}.note: 文字列が必要です`);
+
+  if (errors.length > 0) return errors;
+  return {
+    name,
+    aliases,
+    premise,
+    settings,
+    verified: v.verified !== false,
+    note: typeof v.note === "string" && v.note.trim() ? v.note.trim() : undefined,
+  };
+}
+
+/**
+ * カタログの JSON を検証して読む。エラーは「models[2].settings.reg: …」のように場所付きで返す。
+ * 誤りのある機種・重複した名前は飛ばし、残りの機種だけで使えるようにする。
+ */
+export function parseCatalog(data: unknown): CatalogParse {
+  if (!isObject(data)) return { catalog: null, errors: ["カタログがオブジェクトではありません"] };
+  if (data.version !== CATALOG_VERSION) {
+    return { catalog: null, errors: [`version: ${String(data.version)} は読めません（対応しているのは ${CATALOG_VERSION}）`] };
+  }
+  if (typeof data.revision !== "string" || !REVISION.test(data.revision)) {
+    return { catalog: null, errors: ["revision: 「2026-10-19」の形の日付が必要です"] };
+  }
+  if (!Array.isArray(data.models)) return { catalog: null, errors: ["models: 機種の配列がありません"] };
+
+  const errors: string[] = [];
+  const models: ModelSpec[] = [];
+  data.models.forEach((v, i) => {
+    const r = parseModel(v, `models[${i}]`);
+    if (Array.isArray(r)) errors.push(...r);
+    else if (models.some(m => m.name === r.name)) errors.push(`models[${i}].name: 「${r.name}」が重複しています`);
+    else models.push(r);
+  });
+  if (models.length === 0) return { catalog: null, errors: [...errors, "models: 使える機種がありません"] };
+
+  let def = typeof data.default === "string" ? data.default : models[0].name;
+  if (!models.some(m => m.name === def)) {
+    errors.push(`default: 「${def}」が models にありません（${models[0].name} を使います）`);
+    def = models[0].name;
+  }
+  return { catalog: { version: data.version, revision: data.revision, default: def, models }, errors };
+}
+
+export function parseCatalogText(text: string): CatalogParse {
+  try {
+    return parseCatalog(JSON.parse(text));
+  } catch (e) {
+    return { catalog: null, errors: [`JSON として読めません: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+}
+
+// parseCatalog で読める JSON に戻す（編集して取り込み直す用）
+export function catalogToJson(catalog: SpecCatalog) {
+  const body = {
+    version: catalog.version,
+    revision: catalog.revision,
+    default: catalog.default,
+    models: catalog.models.map(m => ({
+      name: m.name,
+      aliases: m.aliases,
+      roles: { replay: m.premise.replay, cherry: m.premise.cherry, bell: m.premise.bell, piero: m.premise.piero },
+      payouts: { cherry: m.premise.cherryPay, bell: m.premise.bellPay, piero: m.premise.pieroPay, grape: m.premise.grapePay },
+      bonusAvg: { big: m.premise.bigAvg, reg: m.premise.regAvg },
+      settings: m.settings,
+      verified: m.verified ? undefined : false,
+      note: m.note,
+    })),
+  };
+  return JSON.stringify(body, null, 2);
+}
+
+export function exportCatalogJson(catalog: SpecCatalog) {
+  const blob = new Blob([catalogToJson(catalog)], { type: "application/json" });
+  downloadBlob(blob, `jug-ocr-specs-${catalog.revision}.json`);
+}
+
+/* -----------------------
+   取り込んだカタログ（localStorage。組み込みより新しいときだけ使う）
+----------------------- */
+export function loadStoredCatalogText(): string | null {
+  try {
+    return localStorage.getItem(CATALOG_KEY);
+  } catch {
+    return null;
+  }
+}
+export function saveStoredCatalogText(text: string) {
+  trySetItem(CATALOG_KEY, text);
+}
+export function clearStoredCatalog() {
+  try {
+    localStorage.removeItem(CATALOG_KEY);
+  } catch {
+    // 消せなくても続ける
+  }
+}
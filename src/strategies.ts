@@ -0,0 +1,123 @@
+import { STRATEGIES, calcResultByCapture, grapePayOf, type Capture, type CaptureInput, type Premise } from "./calc.ts";
+import { trySetItem } from "./format.ts";
+
+/* -----------------------
+   打法（取得率）プロファイル：組み込み4種＋ユーザー定義（localStorage）
+----------------------- */
+const STRATEGY_PROFILES_KEY = "jug-ocr-v1.2:strategies";
+
+export type StrategyProfile = {
+  key: string;
+  label: string;
+  capture: Capture;
+  builtin?: boolean;
+};
+
+export type StrategySettings = {
+  custom: StrategyProfile[];
+  // カードに出す打法（並び順もこの順）
+  visible: string[];
+};
+
+export const BUILTIN_PROFILES: StrategyProfile[] = STRATEGIES.map(s => ({
+  key: s.key,
+  label: s.label,
+  capture: { ...s.capture },
+  builtin: true,
+}));
+
+export const CAPTURE_KEYS: (keyof Capture)[] = ["cherry", "bell", "piero"];
+export const CAPTURE_LABELS: Record<keyof Capture, string> = {
+  cherry: "チェリー",
+  bell: "ベル",
+  piero: "ピエロ",
+};
+
+const DEFAULT_SETTINGS: StrategySettings = {
+  custom: [],
+  visible: BUILTIN_PROFILES.map(p => p.key),
+};
+
+const clamp01 = (x: unknown) => {
+  const n = typeof x === "number" ? x : Number(x);
+  return isFinite(n) ? Math.min(1, Math.max(0, n)) : 0;
+};
+
+export function loadStrategySettings(): StrategySettings {
+  try {
+    const raw = localStorage.getItem(STRATEGY_PROFILES_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const s = JSON.parse(raw) as Partial<StrategySettings>;
+    const custom = (Array.isArray(s.custom) ? s.custom : [])
+      .filter(p => p && typeof p.key === "string" && typeof p.label === "string")
+      .map(p => ({
+        key: p.key,
+        label: p.label,
+        capture: { cherry: clamp01(p.capture?.cherry), bell: clamp01(p.capture?.bell), piero: clamp01(p.capture?.piero) },
+      }));
+    const known = new Set([...BUILTIN_PROFILES, ...custom].map(p => p.key));
+    const visible = (Array.isArray(s.visible) ? s.visible : DEFAULT_SETTINGS.visible).filter(k => known.has(k));
+    return { custom, visible };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+export function saveStrategySettings(s: StrategySettings) {
+  trySetItem(STRATEGY_PROFILES_KEY, JSON.stringify(s));
+}
+
+export function allProfiles(s: StrategySettings) {
+  return [...BUILTIN_PROFILES, ...s.custom];
+}
+
+// カードに出す打法（visible の順）
+export function visibleProfiles(s: StrategySettings) {
+  const byKey = new Map(allProfiles(s).map(p => [p.key, p]));
+  return s.visible.map(k => byKey.get(k)).filter((p): p is StrategyProfile => p != null);
+}
+
+export function newProfileKey() {
+  return `custom-${Date.now().toString(36)}`;
+}
+
+/* -----------------------
+   取得率の感度
+----------------------- */
+export type Sensitivity = {
+  factor: keyof Capture;
+  // 取得率を ±step 動かしたときのぶどう分母（0〜1 に収まる範囲で）
+  low: { capture: number; prob: number };
+  base: { capture: number; prob: number };
+  high: { capture: number; prob: number };
+  // 取得率 +1% あたりのぶどう回数の変化
+  countPerPct: number;
+};
+
+export function captureSensitivity(
+  input: CaptureInput,
+  premise: Premise,
+  capture: Capture,
+  step = 0.1,
+): Sensitivity[] {
+  const probAt = (factor: keyof Capture, v: number) =>
+    calcResultByCapture(input, premise, { ...capture, [factor]: v }).grapeProb;
+  const denom: Record<keyof Capture, [number, number]> = {
+    cherry: [premise.cherry, premise.cherryPay],
+    bell: [premise.bell, premise.bellPay],
+    piero: [premise.piero, premise.pieroPay],
+  };
+  return CAPTURE_KEYS.map(factor => {
+    const c = capture[factor];
+    const lo = Math.max(0, c - step);
+    const hi = Math.min(1, c + step);
+    const [d, pay] = denom[factor];
+    return {
+      factor,
+      low: { capture: lo, prob: probAt(factor, lo) },
+      base: { capture: c, prob: probAt(factor, c) },
+      high: { capture: hi, prob: probAt(factor, hi) },
+      // 払い出しが増えた分だけぶどうで説明する枚数が減る
+      countPerPct: -((input.G / d) * pay * 0.01) / grapePayOf(premise),
+    };
+  });
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { importFromText, tableFromText } from "./tableImport.ts";
+import { PRESETS } from "./presets.ts";
+
+const names = Object.keys(PRESETS);
+
+describe("tableFromText", () => {
+  it("区切りは貼り付け全体で決める", () => {
+    expect(tableFromText("台番,G,BB,RB,差枚\n101,5432,20,15,-300")).toEqual([
+      ["台番", "G", "BB", "RB", "差枚"],
+      ["101", "5432", "20", "15", "-300"],
+    ]);
+    expect(tableFromText('台番,G,BB,RB,差枚\n101,"5,432",20,15,"-1,300"')[1]).toEqual(["101", "5,432", "20", "15", "-1,300"]);
+    expect(tableFromText("台番 G BB RB\n101 5,432 20 15")[1]).toEqual(["101", "5,432", "20", "15"]);
+  });
+});
+
+describe("importFromText", () => {
+  const expected = { number: "101", G: 5432, big: 20, reg: 15, diff: -300 };
+  it("カンマ区切り", () => {
+    expect(importFromText("台番,G,BB,RB,差枚\n101,5432,20,15,-300", names)?.machines[0]).toMatchObject(expected);
+  });
+  it("タブ区切り", () => {
+    expect(importFromText("台番\tG\tBB\tRB\t差枚\n101\t5432\t20\t15\t-300", names)?.machines[0]).toMatchObject(expected);
+  });
+});
@@ -0,0 +1,307 @@
+import {
+  LABEL_VOCAB,
+  MACHINE_NO_LABEL,
+  MODEL_LABEL,
+  detectModel,
+  normalizeOcrText,
+  parseFromText,
+} from "./ocrParse.ts";
+
+/* -----------------------
+   保存したデータサイトのページ（.html / .mhtml）や貼り付けた表からの取り込み
+   OCR と同じ項目名の語彙で見出しを探し、台ごとの G・BB・RB・差枚を取り出す
+----------------------- */
+
+export type ImportedMachine = {
+  number: string;
+  modelKey?: string;
+  G: number;
+  big: number;
+  reg: number;
+  diff?: number;
+};
+
+export type TableImportResult = {
+  machines: ImportedMachine[];
+  // どう見つけたか（表の見出し行・項目名と値の組・テキスト）
+  method: "header" | "keyValue" | "text";
+  // 見つけた見出し（確認表示用）
+  headers: string[];
+};
+
+type Table = string[][];
+type Column = "number" | "modelKey" | "G" | "big" | "reg" | "diff";
+
+// 表の見出しだけで使う短い別名（OCR では誤認しやすいので LABEL_VOCAB には入れない）
+const TABLE_EXTRA: Record<"G" | "big" | "reg" | "diff", RegExp> = {
+  G: /^(g|ゲーム|回転|スタート|累計)$/,
+  big: /^(b|ビッグ数)$/,
+  reg: /^(r|レギュラー数)$/,
+  diff: /^(差|差枚\(枚\)|収支\(枚\))$/,
+};
+// 合計・平均などの集計行
+const SUMMARY_ROW = /(合計|平均|総計|小計)/;
+// 見出し行を探す深さ
+const HEADER_SEARCH_ROWS = 5;
+
+function normCell(s: string) {
+  return normalizeOcrText(s).replace(/\s/g, "");
+}
+
+function columnOf(cell: string): Column | null {
+  const c = normCell(cell);
+  if (!c) return null;
+  if (MACHINE_NO_LABEL.test(c)) return "number";
+  if (MODEL_LABEL.test(c)) return "modelKey";
+  for (const f of ["G", "big", "reg", "diff"] as const) {
+    if (LABEL_VOCAB[f].test(c) || TABLE_EXTRA[f].test(c)) return f;
+  }
+  return null;
+}
+
+// 「1,234」「+567枚」「1234G」「25回」→ 整数。数値でなければ null
+function toInt(cell: string | undefined, signed = false): number | null {
+  const t = normCell(cell ?? "").replace(/(枚|g|回)$/, "");
+  const m = t.match(signed ? /^([+-]?)(\d{1,6})$/ : /^()(\d{1,6})$/);
+  return m ? parseInt(m[1] + m[2], 10) : null;
+}
+
+// 「123番台」「No.123」→「123」
+function machineNumber(cell: string | undefined) {
+  const t = normCell(cell ?? "");
+  const m = t.match(/\d+/);
+  return m ? m[0] : t;
+}
+
+/* -----------------------
+   ファイル・テキストから表を取り出す
+----------------------- */
+
+// 1バイト=1文字の文字列に（TextDecoder の latin1 は windows-1252 なので使わない）
+function bytesToBinary(bytes: Uint8Array) {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 8192) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return out;
+}
+
+// バイト列を <meta charset> に従って文字列に（Shift_JIS のページもある）
+function decodeHtmlBytes(bytes: Uint8Array, charset?: string) {
+  const head = bytesToBinary(bytes.subarray(0, 4096));
+  const label = charset ?? head.match(/charset\s*=\s*["']?([\w-]+)/i)?.[1] ?? "utf-8";
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(s: string) {
+  const body = s.replace(/=\r?\n/g, "");
+  const out: number[] = [];
+  for (let i = 0; i < body.length; i++) {
+    const hex = body[i] === "=" ? body.slice(i + 1, i + 3) : "";
+    if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+      out.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      out.push(body.charCodeAt(i));
+    }
+  }
+  return new Uint8Array(out);
+}
+
+function decodeBase64(s: string) {
+  const bin = atob(s.replace(/\s/g, ""));
+  return Uint8Array.from(bin, c => c.charCodeAt(0));
+}
+
+/**
+ * MHTML（ウェブアーカイブ）から最初の text/html の部分を取り出す。
+ * 本文は 1文字=1バイトの文字列で受け取る。
+ */
+export function htmlFromMhtml(raw: string): string | null {
+  const boundary = raw.match(/boundary="?([^";\r\n]+)"?/i)?.[1];
+  if (!boundary) return null;
+  for (const part of raw.split(`--${boundary}`)) {
+    const split = part.search(/\r?\n\r?\n/);
+    if (split < 0) continue;
+    const headers = part.slice(0, split);
+    if (!/content-type:\s*text\/html/i.test(headers)) continue;
+    const body = part.slice(split).replace(/^\r?\n\r?\n/, "");
+    const encoding = headers.match(/content-transfer-encoding:\s*([\w-]+)/i)?.[1]?.toLowerCase();
+    const charset = headers.match(/charset="?([\w-]+)"?/i)?.[1];
+    const bytes =
+      encoding === "quoted-printable" ? decodeQuotedPrintable(body)
+      : encoding === "base64" ? decodeBase64(body)
+      : Uint8Array.from(body, c => c.charCodeAt(0));
+    return decodeHtmlBytes(bytes, charset);
+  }
+  return null;
+}
+
+// 保存したページ（.html / .htm / .mhtml / .mht）を HTML 文字列として読む
+export async function readSavedPage(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const binary = bytesToBinary(bytes);
+  if (/\.mht(ml)?$/i.test(file.name) || /^(mime-version|from|snapshot-content-location):/im.test(binary.slice(0, 2048))) {
+    const html = htmlFromMhtml(binary);
+    if (html) return html;
+  }
+  return decodeHtmlBytes(bytes);
+}
+
+// HTML の <table> をセル文字列の 2 次元配列に（入れ子の表も別の表として拾う）
+export function tablesFromHtml(html: string): Table[] {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return Array.from(doc.querySelectorAll("table")).map(t =>
+    Array.from(t.rows).map(r => Array.from(r.cells).map(c => (c.textContent ?? "").replace(/\s+/g, " ").trim()))
+  );
+}
+
+// CSV の 1 行を分ける（"5,432" のように引用符で囲んだセルのカンマは区切りにしない）
+function splitCsvLine(line: string) {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (c === '"') {
+      if (quoted && line[i + 1] === '"') { cell += '"'; i++; }
+      else quoted = !quoted;
+    } else if (c === "," && !quoted) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+// 区切りは貼り付け全体で 1 つに決める（行ごとに決めると「101,5432」の「1,543」を桁区切りと取り違える）。
+// タブがあればタブ、1 行目（見出し）にカンマがあれば CSV、それ以外は空白区切り
+function splitterOf(lines: string[]): (line: string) => string[] {
+  if (lines.some(line => line.includes("\t"))) return line => line.split("\t");
+  if (lines[0]?.includes(",")) return splitCsvLine;
+  return line => line.split(/\s+/);
+}
+
+// 貼り付けたテキスト（タブ区切り・カンマ区切り・空白区切り）を 1 つの表に。
+// 桁区切りのカンマは数値を読むとき（toInt）に外す
+export function tableFromText(text: string): Table {
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line !== "");
+  const split = splitterOf(lines);
+  return lines.map(line => split(line).map(c => c.trim()));
+}
+
+/* -----------------------
+   表から台ごとの値を探す
+----------------------- */
+type HeaderMatch = { row: number; cols: Partial<Record<Column, number>>; headers: string[] };
+
+function findHeader(table: Table): HeaderMatch | null {
+  for (let r = 0; r < Math.min(HEADER_SEARCH_ROWS, table.length); r++) {
+    const cols: HeaderMatch["cols"] = {};
+    const headers: string[] = [];
+    table[r].forEach((cell, i) => {
+      const col = columnOf(cell);
+      if (col && cols[col] == null) {
+        cols[col] = i;
+        headers.push(cell);
+      }
+    });
+    if (cols.G != null && cols.big != null && cols.reg != null) return { row: r, cols, headers };
+  }
+  return null;
+}
+
+function rowsUnderHeader(table: Table, h: HeaderMatch, modelNames: string[]): ImportedMachine[] {
+  const out: ImportedMachine[] = [];
+  for (const cells of table.slice(h.row + 1)) {
+    if (cells.some(c => SUMMARY_ROW.test(c))) continue;
+    const at = (c: Column) => (h.cols[c] != null ? cells[h.cols[c]!] : undefined);
+    const G = toInt(at("G"));
+    const big = toInt(at("big"));
+    const reg = toInt(at("reg"));
+    if (G == null || big == null || reg == null) continue;
+    const diff = toInt(at("diff"), true);
+    const modelCell = at("modelKey");
+    out.push({
+      number: h.cols.number != null ? machineNumber(at("number")) : "",
+      modelKey: modelCell ? detectModel(normalizeOcrText(modelCell), modelNames) : undefined,
+      G, big, reg,
+      diff: diff ?? undefined,
+    });
+  }
+  return out;
+}
+
+// 「BB回数 | 25」のような項目名と値の組（1台分のページ）
+function keyValueMachine(tables: Table[]): ImportedMachine | null {
+  const found: Partial<Record<Column, number>> = {};
+  for (const cells of tables.flat()) {
+    for (let i = 0; i + 1 < cells.length; i++) {
+      const col = columnOf(cells[i]);
+      if (!col || col === "modelKey" || found[col] != null) continue;
+      const v = col === "number" ? toInt(machineNumber(cells[i + 1])) : toInt(cells[i + 1], col === "diff");
+      if (v == null) continue;
+      found[col] = v;
+    }
+  }
+  if (found.G == null || found.big == null || found.reg == null) return null;
+  return {
+    number: found.number != null ? String(found.number) : "",
+    G: found.G,
+    big: found.big,
+    reg: found.reg,
+    diff: found.diff,
+  };
+}
+
+/**
+ * 表の中から台ごとの G・BB・RB・差枚を探す。
+ * 見出し行のある表を優先（一番多く台が取れた表）、無ければ項目名と値の組、
+ * それも無ければ OCR と同じテキスト読み取りで 1 台分を探す。
+ */
+export function findMachines(tables: Table[], modelNames: string[], fallbackText = ""): TableImportResult | null {
+  let best: TableImportResult | null = null;
+  for (const table of tables) {
+    const h = findHeader(table);
+    if (!h) continue;
+    const machines = rowsUnderHeader(table, h, modelNames);
+    if (machines.length > (best?.machines.length ?? 0)) best = { machines, method: "header", headers: h.headers };
+  }
+  if (best) return best;
+
+  const kv = keyValueMachine(tables);
+  if (kv) {
+    kv.modelKey = detectModel(normalizeOcrText(fallbackText), modelNames);
+    return { machines: [kv], method: "keyValue", headers: [] };
+  }
+
+  const parsed = parseFromText(fallbackText, modelNames);
+  if (parsed?.G != null && parsed.big != null && parsed.reg != null) {
+    return {
+      machines: [{ number: "", modelKey: parsed.modelKey, G: parsed.G, big: parsed.big, reg: parsed.reg, diff: parsed.diff }],
+      method: "text",
+      headers: [],
+    };
+  }
+  return null;
+}
+
+// HTML か貼り付けテキストかを見分けて取り込む
+export function importFromText(text: string, modelNames: string[]): TableImportResult | null {
+  if (/<table[\s>]/i.test(text)) {
+    const doc = new DOMParser().parseFromString(text, "text/html");
+    return findMachines(tablesFromHtml(text), modelNames, doc.body?.textContent ?? "");
+  }
+  return findMachines([tableFromText(text)], modelNames, text);
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { calcForward, calcResultByCapture, type CaptureInput, type Premise } from "./calc.ts";
+import type { SettingTable } from "./presets.ts";
+import { validateInput, validateResult } from "./validate.ts";
+
+// ぶどう（ベル）が 1/7 台の機種
+const premise: Premise = {
+  replay: 7.3, cherry: 56, bell: 280, piero: 1024,
+  bigAvg: 240, regAvg: 120, cherryPay: 4, bellPay: 10, pieroPay: 10, grapePay: 10,
+};
+const settings: SettingTable = {
+  big: [297, 284, 273, 262, 249, 236],
+  reg: [496, 458, 425, 397, 368, 343],
+  grape: [7.5, 7.4, 7.3, 7.2, 7.1, 7.0],
+};
+const capture = { cherry: 1, bell: 1, piero: 1 };
+
+// 設定1で 8000G 回し、ぶどうが 1/7.8 と少し下振れしたときの入力（標準偏差 1.3 個分ほど）
+const G = 8000;
+const input: CaptureInput = {
+  G,
+  big: Math.round(G / settings.big[0]),
+  reg: Math.round(G / settings.reg[0]),
+  diff: Math.round(calcForward(G, { big: settings.big[0], reg: settings.reg[0], grape: 7.8 }, premise, capture).diff),
+};
+
+describe("ぶどうの範囲", () => {
+  it("設定表があればその機種のぶどう分母から範囲を作る", () => {
+    const res = calcResultByCapture(input, premise, capture);
+    expect(res.ci[95].prob.lo).toBeGreaterThan(7.2);
+    expect(validateResult(input, res, settings)).toBeNull();
+    expect(validateInput(input, premise, settings).diff ?? []).toEqual([]);
+  });
+
+  it("設定表が無ければジャグラー向けの固定の範囲で見る", () => {
+    const res = calcResultByCapture(input, premise, capture);
+    expect(validateResult(input, res)?.message).toMatch(/ぶどうが低すぎます/);
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  calcResultByCapture,
+  type Capture,
+  type CaptureInput,
+  type CaptureResult,
+  type Premise,
+} from "./calc.ts";
+import type { SettingTable } from "./presets.ts";
+import { formatInt, formatProb } from "./format.ts";
+
+/* -----------------------
+   入力の整合性チェック（読み違い・入力ミスの検出）
+----------------------- */
+
+export type InputField = keyof CaptureInput;
+export type Issue = { level: "danger" | "warn"; message: string };
+export type FieldIssues = Partial<Record<InputField, Issue[]>>;
+
+// 設定表の無い機種で使うぶどう分母の範囲（ジャグラーならどの設定・打法でもおおむねこの中）
+const FALLBACK_GRAPE_RANGE = { lo: 5.0, hi: 7.2 };
+// 設定表のぶどう分母から広げる割合（逆算の揺らぎと取得率の違いの分）
+const GRAPE_MARGIN = 0.12;
+// 設定表の無い機種で使うボーナス分母の範囲
+const FALLBACK_BONUS_RANGE = { big: { lo: 200, hi: 300 }, reg: { lo: 200, hi: 500 } };
+// 1日で回せる回転数の目安（これを超えたら累計G などの読み違いを疑う）
+export const MAX_DAILY_G = 12000;
+// 回数の外れ具合（標準偏差の何倍で知らせるか）
+const OUTLIER_Z = 4;
+
+const NO_CAPTURE: Capture = { cherry: 0, bell: 0, piero: 0 };
+const FULL_CAPTURE: Capture = { cherry: 1, bell: 1, piero: 1 };
+
+function bonusRange(kind: "big" | "reg", settings?: SettingTable) {
+  if (!settings) return FALLBACK_BONUS_RANGE[kind];
+  const t = settings[kind];
+  return { lo: Math.min(...t), hi: Math.max(...t) };
+}
+
+function grapeRange(settings?: SettingTable) {
+  if (!settings) return FALLBACK_GRAPE_RANGE;
+  const t = settings.grape;
+  return { lo: Math.min(...t) * (1 - GRAPE_MARGIN), hi: Math.max(...t) * (1 + GRAPE_MARGIN) };
+}
+
+// 逆算ぶどうの 95% 区間がありえる範囲から外れているか
+function grapeOutOfRange(res: CaptureResult, settings?: SettingTable): "high" | "low" | null {
+  const { lo, hi } = res.ci[95].prob;
+  const range = grapeRange(settings);
+  if (res.grapesCount > 0 && hi < range.lo) return "high";
+  if (lo > range.hi) return "low";
+  return null;
+}
+
+// 差枚の符号を反転すると辻褄が合うか
+function signFlipFits(input: CaptureInput, premise: Premise, settings?: SettingTable) {
+  if (input.diff === 0) return false;
+  const flipped = { ...input, diff: -input.diff };
+  const lo = calcResultByCapture(flipped, premise, FULL_CAPTURE);
+  const hi = calcResultByCapture(flipped, premise, NO_CAPTURE);
+  return lo.grapesCountRaw >= 0 && grapeOutOfRange(lo, settings) !== "high" && grapeOutOfRange(hi, settings) !== "low";
+}
+
+/**
+ * G・BIG・REG・差枚を前提（と設定表）に照らして、ありえない・疑わしい値を項目ごとに返す。
+ * 打法に依らないものだけを見る（打法ごとの結果は validateResult）。
+ */
+export function validateInput(input: CaptureInput, premise: Premise, settings?: SettingTable): FieldIssues {
+  const issues: FieldIssues = {};
+  const add = (field: InputField, issue: Issue) => {
+    (issues[field] ??= []).push(issue);
+  };
+  const { G: g, big: B, reg: R, diff: D } = input;
+
+  // 単独/チェリー重複の内訳と合計の食い違い
+  for (const [kind, label] of [["big", "BIG"], ["reg", "REG"]] as const) {
+    const solo = kind === "big" ? input.bigSolo : input.regSolo;
+    const cherry = kind === "big" ? input.bigCherry : input.regCherry;
+    if (solo == null && cherry == null) continue;
+    const sum = (solo ?? 0) + (cherry ?? 0);
+    if (sum > input[kind]) {
+      add(kind, {
+        level: "danger",
+        message: `内訳（単独${solo ?? "-"}・重複${cherry ?? "-"}）が${label}回数${input[kind]}を超えています。合計か内訳の読み違いを確認してください。`,
+      });
+    } else if (solo != null && cherry != null && sum !== input[kind]) {
+      add(kind, {
+        level: "warn",
+        message: `単独${solo}＋重複${cherry}＝${sum}で、${label}回数${input[kind]}と合いません。`,
+      });
+    }
+  }
+
+  if (!(g > 0)) {
+    if (B > 0 || R > 0 || D !== 0) {
+      add("G", { level: "warn", message: "総回転数が未入力のため逆算できません。" });
+    }
+    return issues;
+  }
+  if (g > MAX_DAILY_G) {
+    add("G", {
+      level: "warn",
+      message: `1日で回せる回転数（約${formatInt(MAX_DAILY_G)}G）を超えています。累計G や別の数字を読んでいないか確認してください。`,
+    });
+  }
+
+  // ボーナス回数：一番良い設定でも出すぎ・一番悪い設定でも少なすぎ
+  for (const [kind, count, label] of [["big", B, "BIG"], ["reg", R, "REG"]] as const) {
+    const range = bonusRange(kind, settings);
+    const most = g / range.lo;
+    const least = g / range.hi;
+    if (count > most + OUTLIER_Z * Math.sqrt(most) + 1) {
+      add(kind, {
+        level: "danger",
+        message: `${label}が${formatInt(g)}Gに対して多すぎます（${formatProb(g / count)}）。数字の読み違い（桁の増え・3と8など）か、G数の読み落としを確認してください。`,
+      });
+    } else if (count < least - OUTLIER_Z * Math.sqrt(least)) {
+      add(kind, {
+        level: "warn",
+        message: `${label}が${formatInt(g)}Gに対して少なすぎます（${formatProb(count > 0 ? g / count : Infinity)}）。桁の読み落としか、G数が累計になっていないか確認してください。`,
+      });
+    }
+  }
+
+  // 差枚：小役をまったく取らなくてもぶどうがマイナスなら、ボーナスの払い出しと矛盾
+  const fewest = calcResultByCapture(input, premise, FULL_CAPTURE);
+  const most = calcResultByCapture(input, premise, NO_CAPTURE);
+  const flipHint = signFlipFits(input, premise, settings)
+    ? `符号が逆（${D > 0 ? "−" : "+"}${formatInt(Math.abs(D))}）の可能性があります。`
+    : "総差枚や別の台の値を読んでいないか確認してください。";
+  if (most.grapesCountRaw < 0) {
+    const bonusOut = B * premise.bigAvg + R * premise.regAvg;
+    add("diff", {
+      level: "danger",
+      message: `BIG・REGの払い出し（約${formatInt(bonusOut)}枚）に対して差枚が少なすぎ、ぶどうがマイナスになります。${flipHint}`,
+    });
+  } else if (grapeOutOfRange(most, settings) === "low") {
+    add("diff", {
+      level: "warn",
+      message: `小役を取らなかったとしてもぶどうが${formatProb(most.grapeProb)}と低すぎます。${flipHint}`,
+    });
+  } else if (grapeOutOfRange(fewest, settings) === "high") {
+    add("diff", {
+      level: "warn",
+      message: `小役をすべて取ったとしてもぶどうが${formatProb(fewest.grapeProb)}と高すぎます。${flipHint}`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * 打法ごとの逆算結果の注意（取得率と入力が噛み合っていない）。
+ * 入力そのものの問題は validateInput で出すので、ここでは打法の見直しを促す。
+ */
+export function validateResult(input: CaptureInput, res: CaptureResult, settings?: SettingTable): Issue | null {
+  if (!(input.G > 0)) return null;
+  if (res.grapesCountRaw < 0) {
+    return {
+      level: "danger",
+      message: `この取得率では差枚が足りず、ぶどうが${formatInt(res.grapesCountRaw)}回になります（0回として表示）。`,
+    };
+  }
+  switch (grapeOutOfRange(res, settings)) {
+    case "high":
+      return { level: "warn", message: "ぶどうが高すぎます。実際の取得率がこれより低いか、差枚を多く読んでいる可能性があります。" };
+    case "low":
+      return { level: "warn", message: "ぶどうが低すぎます。取りこぼしがこれより多いか、差枚を少なく読んでいる可能性があります。" };
+    default:
+      return null;
+  }
+}
@@ -1,7 +1,40 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { VitePWA } from 'vite-plugin-pwa'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // ホーム画面に追加して圏外でも使えるように（アプリ本体と OCR 用ファイルを先読みキャッシュ）
+    VitePWA({
+      registerType: 'prompt',
+      // アイコンは下の globPatterns で拾うので二重に登録しない
+      includeManifestIcons: false,
+      manifest: {
+        name: 'ジャグラーぶどう逆算',
+        short_name: 'ぶどう逆算',
+        description: 'ジャグラーの差枚・ボーナス回数からぶどう確率を逆算',
+        lang: 'ja',
+        start_url: '.',
+        scope: '.',
+        display: 'standalone',
+        orientation: 'portrait',
+        background_color: '#f5f5f5',
+        theme_color: '#111111',
+        icons: [
+          { src: 'icons/icon-192.png', sizes: '192x192', type: 'image/png' },
+          { src: 'icons/icon-512.png', sizes: '512x512', type: 'image/png' },
+          { src: 'icons/icon-maskable-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        ],
+      },
+      workbox: {
+        // public/tesseract/ の worker・core・言語データ（*.gz）も含める
+        globPatterns: ['**/*.{js,css,html,svg,png,gz}'],
+        // core と言語データは数 MB あるので上限を上げる
+        maximumFileSizeToCacheInBytes: 8 * 1024 * 1024,
+        cleanupOutdatedCaches: true,
+      },
+    }),
+  ],
 })